@@ -2,59 +2,97 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
+import React, { useState, ChangeEvent, useRef, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { generateCharacterImage, detectGender } from './services/geminiService';
+import { generateCharacterImage, generateSquadImage, detectGender } from './services/geminiService';
+import type { GenerationResult } from './services/geminiService';
+import { isAbortError } from './lib/abort';
+import { getScheduler } from './services/scheduler';
+import type { SchedulerSnapshot, TaskPriority } from './services/scheduler';
+import { isCacheEnabled } from './services/generationCache';
+import type { CacheMode } from './services/generationCache';
+import { isApiKeyRequired, usesBrowserApiKey } from './services/imageProvider';
 import PolaroidCard from './components/PolaroidCard';
-import { createAlbumPage } from './lib/albumUtils';
+import { createAlbumPages } from './lib/albumUtils';
+import type { AlbumOptions, AlbumRenderOptions } from './lib/albumUtils';
+import { getCardHeading, renderPlayerCard } from './lib/playerCard';
+import type { PlayerCardDetails } from './lib/playerCard';
+import { createAlbumPdf } from './lib/pdfExport';
+import { getImageStore } from './lib/imageStore';
+import { DEFAULT_MAX_DIMENSION, ImagePreprocessingError, preprocessImage } from './lib/imagePreprocessing';
+import type { PreprocessOptions } from './lib/imagePreprocessing';
 import Footer from './components/Footer';
+import LoadoutBuilder from './components/LoadoutBuilder';
+import SquadBuilder from './components/SquadBuilder';
+import RosterBuilder from './components/RosterBuilder';
+import RosterProgress from './components/RosterProgress';
+import SettingsPanel from './components/SettingsPanel';
+import AlbumOptionsPicker from './components/AlbumOptionsPicker';
+import HistoryGallery from './components/HistoryGallery';
+import CatalogManager from './components/CatalogManager';
+import CameraCapture from './components/CameraCapture';
+import VariantCompare from './components/VariantCompare';
+import PlayerCardEditor from './components/PlayerCardEditor';
+import LoadoutCodeBar from './components/LoadoutCodeBar';
+import DiagnosticsDrawer from './components/DiagnosticsDrawer';
+import { useLobbySession } from './hooks/useLobbySession';
+import type { LobbySession } from './hooks/useLobbySession';
+import { saveKeptVariant, saveSession, saveSessionItems, saveSessionResult } from './services/historyStore';
+import type { HistorySession } from './services/historyStore';
+import { classifyError } from './services/errors';
+import { blobToDataUrl, dataUrlToBlob, downloadBlob, getAlbumFilename, getCardFilename, getCardShareText, ROSTER_ZIP_FILENAME, shareImage, shareImages } from './lib/shareUtils';
+import { createRosterZip, getRosterMemberName } from './lib/rosterExport';
+import { BUILTIN_CATALOG, getEntryNames, mergeCatalogs } from './lib/catalog';
+import { hashString, pickRandom, shuffleArray } from './lib/random';
+import type { Rng } from './lib/random';
+import { clearLoadoutCodeFromUrl, decodeLoadoutCode, encodeLoadoutCode, getLoadoutCodeFromUrl, LoadoutCodeError } from './lib/loadoutCode';
+import type { Catalog } from './lib/catalog';
+import { buildPromptContext, buildSquadPromptContext } from './lib/prompts';
+import type { RenderedPrompt } from './lib/prompts';
+import { listCatalogPacks } from './services/catalogStore';
+import type { StoredCatalogPack } from './services/catalogStore';
+import { getStyleSettings, saveStyleSettings } from './services/stylePreferencesStore';
+import type { StyleSettings } from './services/stylePreferencesStore';
+import { getPlayerCardSettings, savePlayerCardSettings } from './services/playerCardStore';
+import type { PlayerCardSettings } from './services/playerCardStore';
+import StylePicker from './components/StylePicker';
+import type { CardVariant, GeneratedImage, GenerationItem, LobbyMode, RosterLoadoutMode, RosterMember, SquadMember, Gender, OutfitStylePreference, StylePreferences } from './types';
 
-const COMMON_MALE_OUTFITS = [
-    'Iconic trench coat with a level 1 helmet',
-    'White shirt, tie, and blue jeans from the loading screen',
-    'Full tactical gear with a level 3 helmet and vest',
-    'Ghillie suit for stealthy camouflage',
-    'Biker jacket, ripped jeans, and combat boots',
-    'Camo cargo pants and a dark t-shirt',
-    'Padded jacket for cold weather maps',
-    'Simple hoodie and jeans for a casual look'
-];
+const NUM_IMAGES_TO_GENERATE = 4;
 
-const COMMON_FEMALE_OUTFITS = [
-    'Pleated mini-skirt and white shirt (schoolgirl outfit)',
-    'Leather hotpants and a cropped tank top',
-    'Full tactical gear with a level 2 helmet and vest',
-    'Plaid shirt, denim shorts, and combat boots',
-    'Floral print dress for a surprising look on the battlefield',
-    'Black turtleneck and tactical pants',
-    'Ghillie suit for maximum concealment',
-    'Sporty tracksuit with sneakers'
-];
+const MIN_SQUAD_SIZE = 2;
+const MAX_SQUAD_SIZE = 4;
+// The squad shot's card key and caption
+const SQUAD_SHOT_CAPTION = "Squad Shot";
 
-const MAPS = [
-    'Georgopol, Erangel', 'Pochinki, Erangel', 'Hacienda del Patrón, Miramar', 'Pecado, Miramar',
-    'Bootcamp, Sanhok', 'Paradise Resort, Sanhok', 'Dino Park, Vikendi', 'Castle, Vikendi'
-];
-const SCENARIOS = [
-    'looting a rare airdrop crate', 'taking cover behind a rock', 'scouting from a high vantage point',
-    'driving a Dacia across a bridge', 'celebrating a "Winner Winner Chicken Dinner!"', 'reviving a downed teammate',
-    'peeking around a corner of a building', 'throwing a smoke grenade for cover', 'parachuting onto the island',
-    'gearing up for the final circle', 'healing up with a first aid kit', 'in a tense standoff inside a house'
-];
+// Big enough for a clan, small enough that every card's image fits in memory at once
+const MAX_ROSTER_SIZE = 40;
 
-const MAP_DESCRIPTIONS: Record<string, string> = {
-    'Georgopol, Erangel': 'the large port city of Georgopol on Erangel, with its towering cranes, shipping containers, and apartment buildings.',
-    'Pochinki, Erangel': 'the iconic, centrally located town of Pochinki on Erangel, famous for its dense cluster of buildings and popular for early-game encounters.',
-    'Hacienda del Patrón, Miramar': 'the luxurious Hacienda del Patrón in Miramar, a large villa surrounded by walls, a prime location for high-tier loot.',
-    'Pecado, Miramar': 'the bustling city of Pecado in Miramar, featuring a large casino and a boxing arena that attract bold players.',
-    'Bootcamp, Sanhok': 'the central military training facility of Bootcamp on Sanhok, a compact and action-packed area for skilled players.',
-    'Paradise Resort, Sanhok': 'the scenic Paradise Resort on Sanhok, a beautiful but dangerous location with multiple hotel buildings and courtyards.',
-    'Dino Park, Vikendi': 'the abandoned, snow-covered Dino Park on Vikendi, complete with dinosaur statues, a maze, and a roller coaster.',
-    'Castle, Vikendi': 'the majestic, snow-dusted Castle on Vikendi, a multi-level fortress surrounded by a moat, offering strategic high ground.'
-};
+const CANCELLED_MESSAGE = "Cancelled. Shake it to try again.";
 
+// A loadout someone shared with a link, waiting for this user's photo
+interface LoadoutChallenge {
+    code: string;
+    items: GenerationItem[] | null;
+    // Why the link couldn't be used, when items is null
+    error?: string;
+}
 
-const NUM_IMAGES_TO_GENERATE = 4;
+const readLoadoutChallenge = (): LoadoutChallenge | null => {
+    const code = getLoadoutCodeFromUrl();
+    if (!code) return null;
+    try {
+        return { code, items: decodeLoadoutCode(code, NUM_IMAGES_TO_GENERATE) };
+    } catch (error) {
+        if (!(error instanceof LoadoutCodeError)) throw error;
+        return { code, items: null, error: error.message };
+    }
+};
+
+// Uploads are scaled down to this longest edge before they're sent to the model
+const UPLOAD_OPTIONS: PreprocessOptions = {
+    maxDimension: Number(process.env.UPLOAD_MAX_DIMENSION) || DEFAULT_MAX_DIMENSION,
+};
 
 // Pre-defined positions for a scattered look on desktop
 const POSITIONS = [
@@ -62,6 +100,7 @@ const POSITIONS = [
     { top: '15%', left: '60%', rotate: 5 },
     { top: '45%', left: '5%', rotate: 3 },
     { top: '2%', left: '35%', rotate: 10 },
+    { top: '40%', left: '45%', rotate: -4 },
 ];
 
 const GHOST_POLAROIDS_CONFIG = [
@@ -71,22 +110,6 @@ const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "180%", y: "90%", rotate: -20 }, transition: { delay: 0.8 } },
 ];
 
-
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
-}
-
-interface GenerationItem {
-    character: string;
-    map: string;
-    scenario: string;
-}
-
-type Gender = 'Male' | 'Female' | 'Unknown';
-
 const primaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-black bg-yellow-500 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
 const secondaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
 
@@ -104,150 +127,697 @@ const useMediaQuery = (query: string) => {
     return matches;
 };
 
-// Fisher-Yates shuffle
-const shuffleArray = <T,>(array: T[]): T[] => {
-    const newArray = [...array];
-    for (let i = newArray.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-    }
-    return newArray;
+const getOutfitPool = (catalog: Catalog, outfitStyle: OutfitStylePreference): string[] => {
+    // Untagged and neutral outfits suit every style; 'mixed' offers every outfit for variety
+    const pool = catalog.outfits
+        .filter(outfit => outfitStyle === 'mixed' || !outfit.tags.style || outfit.tags.style === 'neutral' || outfit.tags.style === outfitStyle)
+        .map(outfit => outfit.name);
+    // Fall back to everything if the catalog can't fill a loadout in this style
+    return pool.length >= NUM_IMAGES_TO_GENERATE ? pool : getEntryNames(catalog, 'outfits');
+};
+
+// The variant of a card that the album, downloads and shares use
+const getKeptVariant = (image: GeneratedImage | undefined): CardVariant | undefined => (
+    image?.variants?.find(variant => variant.id === image.keptVariantId) ?? image?.variants?.[image.variants.length - 1]
+);
+
+// Releases the object URLs behind every take of the given cards
+const revokeCards = (cards: GeneratedImage[]) => {
+    const imageStore = getImageStore();
+    cards.forEach(card => card.variants?.forEach(variant => imageStore.revoke(variant.url)));
+};
+
+// The squad shot is the only card with more than one member in it
+const isSquadShot = (item: GenerationItem): boolean => (item.memberIds?.length ?? 0) > 1;
+
+// Turn a detected gender into a suggestion the user can accept or change
+const getSuggestedStyle = (gender: Gender | null): StylePreferences | null => {
+    if (gender === 'Male') return { outfitStyle: 'masculine', description: 'male' };
+    if (gender === 'Female') return { outfitStyle: 'feminine', description: 'female' };
+    return null;
+};
+
+// Generate a random loadout with a unique outfit per card
+const createRandomLoadout = (catalog: Catalog, pool: string[], rng: Rng): GenerationItem[] => {
+    const randomOutfits = shuffleArray(pool, rng).slice(0, NUM_IMAGES_TO_GENERATE);
+    const randomMaps = shuffleArray(getEntryNames(catalog, 'maps'), rng);
+    const randomScenarios = shuffleArray(getEntryNames(catalog, 'scenarios'), rng);
+
+    return randomOutfits.map((character, i) => ({
+        character,
+        map: randomMaps[i % randomMaps.length],
+        scenario: randomScenarios[i % randomScenarios.length],
+    }));
+};
+
+// Give a new squad member an outfit nobody else in the squad is wearing, in the squad's scene
+const createSquadMemberItem = (catalog: Catalog, pool: string[], memberId: string, squadItems: GenerationItem[], rng: Rng): GenerationItem => {
+    const takenOutfits = squadItems.map(item => item.character);
+    const availableOutfits = pool.filter(outfit => !takenOutfits.includes(outfit));
+    return {
+        character: pickRandom(availableOutfits.length > 0 ? availableOutfits : pool, rng),
+        map: squadItems[0]?.map ?? pickRandom(getEntryNames(catalog, 'maps'), rng),
+        scenario: squadItems[0]?.scenario ?? pickRandom(getEntryNames(catalog, 'scenarios'), rng),
+        memberIds: [memberId],
+    };
+};
+
+// Re-roll a single slot, avoiding outfits already used by the other slots
+const rerollLoadoutItem = (catalog: Catalog, pool: string[], items: GenerationItem[], index: number, rng: Rng): GenerationItem => {
+    const takenOutfits = items.filter((_, i) => i !== index).map(item => item.character);
+    const availableOutfits = pool.filter(outfit => !takenOutfits.includes(outfit));
+    return {
+        character: availableOutfits.length > 0 ? pickRandom(availableOutfits, rng) : items[index].character,
+        map: pickRandom(getEntryNames(catalog, 'maps'), rng),
+        scenario: pickRandom(getEntryNames(catalog, 'scenarios'), rng),
+    };
 };
 
 
 function App() {
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
-    const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
-    const [appState, setAppState] = useState<'idle' | 'analyzing' | 'generating' | 'results-shown'>('idle');
+    const [isExportingPdf, setIsExportingPdf] = useState<boolean>(false);
+    const [pdfOnePerPage, setPdfOnePerPage] = useState<boolean>(false);
     const [generationItems, setGenerationItems] = useState<GenerationItem[]>([]);
+    const [lobbyMode, setLobbyMode] = useState<LobbyMode>('solo');
+    const [squadMembers, setSquadMembers] = useState<SquadMember[]>([]);
+    const [rosterMembers, setRosterMembers] = useState<RosterMember[]>([]);
+    const [rosterLoadoutMode, setRosterLoadoutMode] = useState<RosterLoadoutMode>('shared');
+    // Roster cards by outfit, keyed by member ID
+    const [rosterImages, setRosterImages] = useState<Record<string, Record<string, GeneratedImage>>>({});
+    const [rosterExportProgress, setRosterExportProgress] = useState<{ done: number; total: number } | null>(null);
     const [detectedGender, setDetectedGender] = useState<Gender | null>(null);
+    const [styleSettings, setStyleSettings] = useState<StyleSettings>(getStyleSettings);
+    const [stylePreferences, setStylePreferences] = useState<StylePreferences>(() => {
+        const { suggestFromPhoto, ...preferences } = getStyleSettings();
+        return preferences;
+    });
+    const [styleSuggestion, setStyleSuggestion] = useState<StylePreferences | null>(null);
+    const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+    // Whether the next batch may reuse cached images; a one-off, so it goes back to 'reuse' once the batch starts
+    const [runCacheMode, setRunCacheMode] = useState<CacheMode>('reuse');
+    const [isKeyRequired, setIsKeyRequired] = useState<boolean>(isApiKeyRequired);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const [queueSnapshot, setQueueSnapshot] = useState<SchedulerSnapshot>(() => getScheduler().getSnapshot());
+    const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+    const [comparedCharacter, setComparedCharacter] = useState<string | null>(null);
+    const [playerCard, setPlayerCard] = useState<PlayerCardSettings>(getPlayerCardSettings);
+    const [isPlayerCardOpen, setIsPlayerCardOpen] = useState<boolean>(false);
+    const [isDraggingPhoto, setIsDraggingPhoto] = useState<boolean>(false);
+    const [isCatalogOpen, setIsCatalogOpen] = useState<boolean>(false);
+    const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState<boolean>(false);
+    const [catalogPacks, setCatalogPacks] = useState<StoredCatalogPack[]>(listCatalogPacks);
+    const [loadoutChallenge, setLoadoutChallenge] = useState<LoadoutChallenge | null>(readLoadoutChallenge);
+    const [albumOptions, setAlbumOptions] = useState<Required<AlbumOptions>>({ template: 'auto', pageSize: 'a4', orientation: 'portrait' });
+    const catalog = useMemo(() => mergeCatalogs([
+        BUILTIN_CATALOG,
+        ...catalogPacks.filter(pack => pack.enabled).map(pack => pack.catalog),
+    ]), [catalogPacks]);
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const isMobile = useMediaQuery('(max-width: 768px)');
-    const generationTriggered = useRef(false); // Ref to prevent re-triggering generation
+    const lobby = useLobbySession();
+    // History entry that new results are saved to, and a promise for its initial save
+    const historySession = useRef<{ id: string; saved: Promise<void> } | null>(null);
 
+    // Hands over a shared loadout once it has been put in the builder, so it's only used once
+    const takeLoadoutChallenge = (): GenerationItem[] | null => {
+        const items = loadoutChallenge?.items ?? null;
+        if (items) {
+            setLoadoutChallenge(null);
+            clearLoadoutCodeFromUrl();
+        }
+        return items;
+    };
+
+    // The cards as last rendered, so handlers that run after an await release the right ones
+    const generatedImagesRef = useRef(generatedImages);
+    const rosterImagesRef = useRef(rosterImages);
+    useEffect(() => {
+        generatedImagesRef.current = generatedImages;
+    }, [generatedImages]);
+    useEffect(() => {
+        rosterImagesRef.current = rosterImages;
+    }, [rosterImages]);
+
+    // Swaps in a new set of cards, releasing the object URLs of the ones they replace
+    const replaceCards = (cards: Record<string, GeneratedImage>) => {
+        revokeCards(Object.values(generatedImagesRef.current));
+        generatedImagesRef.current = cards;
+        setGeneratedImages(cards);
+    };
+
+    const clearRosterCards = () => {
+        Object.values(rosterImagesRef.current).forEach(memberCards => revokeCards(Object.values(memberCards)));
+        rosterImagesRef.current = {};
+        setRosterImages({});
+    };
+
+    const handleDismissLoadoutChallenge = () => {
+        setLoadoutChallenge(null);
+        clearLoadoutCodeFromUrl();
+    };
+
+    useEffect(() => getScheduler().subscribe(setQueueSnapshot), []);
+
+    // Describes where a pending card is in the shared queue, e.g. "Queued #3"
+    const getQueueLabel = (character: string): string | undefined => {
+        const position = queueSnapshot.queued.indexOf(character);
+        if (position !== -1) return `Queued #${position + 1}`;
+        return queueSnapshot.running.includes(character) ? 'Generating...' : undefined;
+    };
+
+    // Accept a pasted image while waiting for a photo
     useEffect(() => {
-        // This effect triggers the generation process once the state is ready.
-        if (appState === 'generating' && uploadedImage && !generationTriggered.current) {
-            generationTriggered.current = true;
-            handleGenerateClick();
+        if (lobby.phase !== 'idle' || isCameraOpen) return;
+        const handlePaste = (e: ClipboardEvent) => {
+            const file = Array.from(e.clipboardData?.files ?? []).find(pastedFile => pastedFile.type.startsWith('image/'));
+            if (!file) return;
+            e.preventDefault();
+            handleImageFile(file);
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [lobby.phase, isCameraOpen, styleSettings, catalog, lobbyMode, loadoutChallenge]);
+
+
+    // Every photo source (file picker, camera, drag-and-drop, paste) ends up here
+    const handleImageFile = async (file: File) => {
+        if (lobbyMode === 'squad') {
+            await handleAddSquadPhotos([file]);
+            return;
+        }
+        if (lobbyMode === 'roster') {
+            await handleAddRosterPhotos([file]);
+            return;
+        }
+        if (isApiKeyRequired()) {
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        let imageDataUrl: string;
+        try {
+            imageDataUrl = (await preprocessImage(file, UPLOAD_OPTIONS)).dataUrl;
+        } catch (error) {
+            console.error("Failed to prepare photo:", error);
+            alert(error instanceof ImagePreprocessingError ? error.message : "Sorry, we couldn't read that photo. Please try another one.");
+            return;
         }
-    }, [appState, uploadedImage]);
 
+        const { suggestFromPhoto, ...savedPreferences } = styleSettings;
+        if (suggestFromPhoto && !lobby.send({ type: 'PHOTO_RECEIVED' })) return;
+        const session = lobby.startSession();
+        try {
+            // Only guess from the photo if the user asked for it, and only as a suggestion
+            const gender = suggestFromPhoto ? await detectGender(imageDataUrl, { signal: session.controller.signal, sessionId: session.id }) : null;
+            if (!lobby.isCurrentSession(session.id)) return;
+            // The suggestion is shown next to the saved preferences and only applies once the user picks it
+            const suggestion = getSuggestedStyle(gender);
+            // Let the user tweak the loadout before generating
+            if (!lobby.send({ type: 'LOADOUT_READY' })) return;
+            const items = takeLoadoutChallenge() ?? createRandomLoadout(catalog, getOutfitPool(catalog, savedPreferences.outfitStyle), lobby.getLoadoutRng());
 
-    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const reader = new FileReader();
-            reader.onloadend = async () => {
-                const imageDataUrl = reader.result as string;
-                setAppState('analyzing');
-                try {
-                    const gender = await detectGender(imageDataUrl);
-                    let pool: string[] = [];
-                    if (gender === 'Male') {
-                        pool = COMMON_MALE_OUTFITS;
-                    } else if (gender === 'Female') {
-                        pool = COMMON_FEMALE_OUTFITS;
-                    } else {
-                        // If unknown, combine and shuffle for variety
-                        pool = shuffleArray([...COMMON_MALE_OUTFITS, ...COMMON_FEMALE_OUTFITS]);
-                    }
-                    
-                    // Generate a random loadout
-                    const randomOutfits = shuffleArray(pool).slice(0, NUM_IMAGES_TO_GENERATE);
-                    const randomMaps = shuffleArray(MAPS);
-                    const randomScenarios = shuffleArray(SCENARIOS);
-
-                    const items: GenerationItem[] = randomOutfits.map((character, i) => ({
-                        character,
-                        map: randomMaps[i % randomMaps.length],
-                        scenario: randomScenarios[i % randomScenarios.length],
-                    }));
-                    
-                    setDetectedGender(gender);
-                    setGenerationItems(items);
-                    setUploadedImage(imageDataUrl);
-                    setGeneratedImages({}); // Clear previous results
-                    generationTriggered.current = false; // Reset trigger
-                    setAppState('generating'); // Go straight to generation
-                } catch (error) {
-                    console.error("Failed to analyze image:", error);
-                    alert("Sorry, we couldn't analyze your photo. Please try another one.");
-                    setAppState('idle');
-                }
-            };
-            reader.readAsDataURL(file);
+            setDetectedGender(gender);
+            setStyleSuggestion(suggestion);
+            setStylePreferences(savedPreferences);
+            setGenerationItems(items);
+            setUploadedImage(imageDataUrl);
+            replaceCards({}); // Clear previous results
+        } catch (error) {
+            if (isAbortError(error) || !lobby.isCurrentSession(session.id)) return;
+            console.error("Failed to analyze image:", error);
+            alert("Sorry, we couldn't analyze your photo. Please try another one.");
+            lobby.send({ type: 'ANALYSIS_FAILED' });
         }
     };
     
-    const generatePrompt = (item: GenerationItem, gender: Gender | null): string => {
-        const { character, map, scenario } = item;
-        
-        const genderClause = gender === 'Male' ? 'male' : gender === 'Female' ? 'female' : 'person';
-        const mapDescription = MAP_DESCRIPTIONS[map] || `the battle royale map "${map}"`;
+    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files ?? []);
+        e.target.value = ''; // Allow the same file to be picked again after an error or once a key is saved
+        if (lobbyMode === 'squad' && files.length > 0) {
+            handleAddSquadPhotos(files);
+        } else if (lobbyMode === 'roster' && files.length > 0) {
+            handleAddRosterPhotos(files);
+        } else if (files[0]) {
+            handleImageFile(files[0]);
+        }
+    };
+
+    // Squads and rosters mix players, so they draw from every outfit rather than one person's style
+    const getActiveOutfitPool = (): string[] => getOutfitPool(catalog, lobbyMode === 'solo' ? stylePreferences.outfitStyle : 'mixed');
+
+    const handleAddSquadPhotos = async (files: File[]) => {
+        if (isApiKeyRequired()) {
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        const room = MAX_SQUAD_SIZE - squadMembers.length;
+        if (files.length > room) {
+            alert(room > 0
+                ? `A squad has at most ${MAX_SQUAD_SIZE} players, so only the first ${room} photo${room === 1 ? '' : 's'} will be added.`
+                : `A squad has at most ${MAX_SQUAD_SIZE} players. Remove someone to add another photo.`);
+        }
+
+        const added: SquadMember[] = [];
+        for (const file of files.slice(0, Math.max(0, room))) {
+            try {
+                added.push({ id: crypto.randomUUID(), photo: (await preprocessImage(file, UPLOAD_OPTIONS)).dataUrl });
+            } catch (error) {
+                console.error("Failed to prepare photo:", error);
+                alert(error instanceof ImagePreprocessingError ? error.message : "Sorry, we couldn't read that photo. Please try another one.");
+            }
+        }
+        if (added.length === 0) return;
 
-        return `
-Photo edit request: Change the person in the photo into a ${genderClause} video game character.
-- **Outfit:** Dress them in the following PUBG outfit: "${character}".
-- **Face:** Their face must be perfectly preserved from the original photo and must be fully visible. Do not add any masks, helmets, or face coverings unless specified in the outfit description.
-- **Action:** Place them in the following scene: "${scenario}".
-- **Location:** The background should be ${mapDescription}.
-- **Style:** The final image should have the high-quality, realistic style of a modern video game.
-`;
+        if (lobby.phase === 'idle') {
+            lobby.startSession();
+        }
+        const pool = getActiveOutfitPool();
+        let items = lobby.phase === 'idle' ? [] : generationItems;
+        for (const member of added) {
+            items = [...items, createSquadMemberItem(catalog, pool, member.id, items, lobby.getLoadoutRng())];
+        }
+        setSquadMembers([...(lobby.phase === 'idle' ? [] : squadMembers), ...added]);
+        setGenerationItems(items);
+        if (lobby.phase === 'idle') {
+            replaceCards({});
+            lobby.send({ type: 'LOADOUT_READY' });
+        }
     };
 
+    const handleRemoveSquadMember = (index: number) => {
+        setSquadMembers(prev => prev.filter((_, i) => i !== index));
+        setGenerationItems(prev => prev.filter((_, i) => i !== index));
+    };
 
-    const handleGenerateClick = async () => {
-        if (!uploadedImage || generationItems.length === 0) return;
+    const handleSquadOutfitChange = (index: number, outfit: string) => {
+        setGenerationItems(prev => prev.map((item, i) => (i === index ? { ...item, character: outfit } : item)));
+    };
 
-        setIsLoading(true);
-        
-        const initialImages: Record<string, GeneratedImage> = {};
-        generationItems.forEach(item => {
-            initialImages[item.character] = { status: 'pending' };
-        });
-        setGeneratedImages(initialImages);
+    const handleSquadSceneChange = (map: string, scenario: string) => {
+        setGenerationItems(prev => prev.map(item => ({ ...item, map, scenario })));
+    };
+
+    const handleRandomizeSquad = () => {
+        const outfits = shuffleArray(getActiveOutfitPool(), lobby.getLoadoutRng());
+        const map = pickRandom(getEntryNames(catalog, 'maps'), lobby.getLoadoutRng());
+        const scenario = pickRandom(getEntryNames(catalog, 'scenarios'), lobby.getLoadoutRng());
+        setGenerationItems(squadMembers.map((member, i) => ({
+            character: outfits[i % outfits.length],
+            map,
+            scenario,
+            memberIds: [member.id],
+        })));
+    };
+
+    const handleLobbyModeChange = (mode: LobbyMode) => {
+        setLobbyMode(mode);
+        setSquadMembers([]);
+        setRosterMembers([]);
+    };
 
-        const concurrencyLimit = 2; // Process two characters at a time
-        const itemsQueue = [...generationItems];
+    const handleAddRosterPhotos = async (files: File[]) => {
+        if (isApiKeyRequired()) {
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        const existing = lobby.phase === 'idle' ? [] : rosterMembers;
+        const room = MAX_ROSTER_SIZE - existing.length;
+        if (files.length > room) {
+            alert(room > 0
+                ? `A roster has at most ${MAX_ROSTER_SIZE} players, so only the first ${room} photo${room === 1 ? '' : 's'} will be added.`
+                : `A roster has at most ${MAX_ROSTER_SIZE} players. Remove someone to add another photo.`);
+        }
 
-        const processItem = async (item: GenerationItem) => {
+        const added: RosterMember[] = [];
+        const failed: string[] = [];
+        for (const file of files.slice(0, Math.max(0, room))) {
             try {
-                const prompt = generatePrompt(item, detectedGender);
-                const resultUrl = await generateCharacterImage(uploadedImage, prompt);
+                added.push({
+                    id: crypto.randomUUID(),
+                    name: '',
+                    fileName: file.name.replace(/\.[^.]+$/, ''),
+                    photo: (await preprocessImage(file, UPLOAD_OPTIONS)).dataUrl,
+                    items: [],
+                });
+            } catch (error) {
+                console.error(`Failed to prepare ${file.name}:`, error);
+                failed.push(file.name);
+            }
+        }
+        // One alert for the whole batch rather than one per bad file
+        if (failed.length > 0) {
+            alert(`Sorry, we couldn't read ${failed.length === 1 ? 'this photo' : 'these photos'}: ${failed.join(', ')}`);
+        }
+        if (added.length === 0) return;
+
+        setRosterMembers([...existing, ...added]);
+        if (lobby.phase === 'idle') {
+            lobby.startSession();
+            replaceCards({});
+            clearRosterCards();
+            // A shared loadout becomes the roster's shared loadout
+            setGenerationItems(takeLoadoutChallenge() ?? createRandomLoadout(catalog, getActiveOutfitPool(), lobby.getLoadoutRng()));
+            lobby.send({ type: 'LOADOUT_READY' });
+        }
+    };
+
+    const handleRosterNameChange = (index: number, name: string) => {
+        setRosterMembers(prev => prev.map((member, i) => (i === index ? { ...member, name } : member)));
+    };
+
+    const handleRemoveRosterMember = (index: number) => {
+        setRosterMembers(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleCameraCapture = (file: File) => {
+        setIsCameraOpen(false);
+        handleImageFile(file);
+    };
+
+    const handlePhotoDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDraggingPhoto(false);
+        const file = Array.from<File>(e.dataTransfer.files).find(droppedFile => droppedFile.type.startsWith('image/'))
+            ?? e.dataTransfer.files[0];
+        if (file) handleImageFile(file);
+    };
+
+    const handleSuggestFromPhotoChange = (suggestFromPhoto: boolean) => {
+        const updated = { ...styleSettings, suggestFromPhoto };
+        setStyleSettings(updated);
+        saveStyleSettings(updated);
+    };
+
+    const handleStylePreferencesChange = (preferences: StylePreferences) => {
+        if (preferences.outfitStyle !== stylePreferences.outfitStyle) {
+            // The current loadout was drawn from the old style's outfits
+            setGenerationItems(createRandomLoadout(catalog, getOutfitPool(catalog, preferences.outfitStyle), lobby.getLoadoutRng()));
+        }
+        setStylePreferences(preferences);
+
+        // Remember the choice as the default for next time
+        const updated = { ...styleSettings, ...preferences };
+        setStyleSettings(updated);
+        saveStyleSettings(updated);
+    };
+
+    const handleLoadoutItemChange = (index: number, item: GenerationItem) => {
+        setGenerationItems(prev => prev.map((existing, i) => (i === index ? item : existing)));
+    };
+
+    const handleRerollLoadoutItem = (index: number) => {
+        setGenerationItems(prev => prev.map((existing, i) => (
+            i === index ? rerollLoadoutItem(catalog, getActiveOutfitPool(), prev, index, lobby.getLoadoutRng()) : existing
+        )));
+    };
+
+    const handleRandomizeLoadout = () => {
+        setGenerationItems(createRandomLoadout(catalog, getActiveOutfitPool(), lobby.getLoadoutRng()));
+    };
+
+    const startGeneration = (items: GenerationItem[]) => {
+        if (items.length === 0) return;
+        lobby.runGeneration(session => {
+            setGenerationItems(items);
+            const initialImages: Record<string, GeneratedImage> = {};
+            items.forEach(item => {
+                initialImages[item.character] = { status: 'pending' };
+            });
+            replaceCards(initialImages);
+            startHistorySession(items);
+            setRunCacheMode('reuse');
+            return items.map(item => generateCard(item, items, session, 'batch', runCacheMode));
+        });
+    };
+
+    const handleConfirmLoadout = () => {
+        startGeneration(generationItems);
+    };
+
+    // The squad shot goes first, so it leads the album
+    const handleConfirmSquad = () => {
+        if (squadMembers.length < MIN_SQUAD_SIZE || generationItems.length === 0) return;
+        const { map, scenario } = generationItems[0];
+        startGeneration([
+            { character: SQUAD_SHOT_CAPTION, map, scenario, memberIds: squadMembers.map(member => member.id) },
+            ...generationItems,
+        ]);
+    };
+
+    const startHistorySession = (items: GenerationItem[]) => {
+        const sourcePhoto = uploadedImage ?? squadMembers[0]?.photo;
+        if (!sourcePhoto) return;
+        const id = crypto.randomUUID();
+        const now = Date.now();
+        const saved = Promise.all([
+            dataUrlToBlob(sourcePhoto),
+            Promise.all(squadMembers.map(async member => ({ id: member.id, photo: await dataUrlToBlob(member.photo) }))),
+        ])
+            .then(([sourceImage, savedMembers]) => saveSession({
+                id,
+                createdAt: now,
+                updatedAt: now,
+                sourceImage,
+                squadMembers: savedMembers.length > 0 ? savedMembers : undefined,
+                detectedGender,
+                stylePreferences,
+                items,
+                results: {},
+            }))
+            .catch(error => {
+                // History is a convenience; generation carries on even if it can't be saved.
+                console.error("Failed to save session to history:", error);
+            });
+        historySession.current = { id, saved };
+    };
+
+    const saveResultToHistory = async (character: string, variant: CardVariant, prompt: RenderedPrompt) => {
+        const session = historySession.current;
+        if (!session) return;
+        try {
+            await session.saved;
+            await saveSessionResult(session.id, character, {
+                id: variant.id,
+                image: await getImageStore().getBlob(variant.url),
+                prompt: prompt.text,
+                promptTier: prompt.tier,
+                promptVersion: prompt.version,
+                createdAt: variant.createdAt,
+            });
+        } catch (error) {
+            console.error(`Failed to save ${character} to history:`, error);
+        }
+    };
+
+    const handleResumeSession = async (session: HistorySession) => {
+        try {
+            const sourceImageUrl = await blobToDataUrl(session.sourceImage);
+            const resumedMembers: SquadMember[] = await Promise.all((session.squadMembers ?? []).map(async member => ({
+                id: member.id,
+                photo: await blobToDataUrl(member.photo),
+            })));
+            if (!lobby.send({ type: 'SESSION_RESTORED' })) return;
+
+            // The resumed cards replace whatever the lobby was showing
+            const imageStore = getImageStore();
+            imageStore.revokeAll();
+            const resumedImages: Record<string, GeneratedImage> = {};
+            for (const item of session.items) {
+                const kept = session.results[item.character];
+                const results = session.variants?.[item.character] ?? (kept ? [kept] : []);
+                const variants: CardVariant[] = results.map(result => ({
+                    id: result.id ?? item.character,
+                    url: imageStore.put(result.image),
+                    promptTier: result.promptTier,
+                    createdAt: result.createdAt,
+                }));
+                resumedImages[item.character] = kept
+                    ? { status: 'done', variants, keptVariantId: kept.id ?? item.character }
+                    : { status: 'error', error: "This card wasn't finished. Shake it to try again.", errorAction: 'retry' };
+            }
+
+            historySession.current = { id: session.id, saved: Promise.resolve() };
+            lobby.startSession();
+            setLobbyMode(resumedMembers.length > 0 ? 'squad' : 'solo');
+            setSquadMembers(resumedMembers);
+            setUploadedImage(resumedMembers.length > 0 ? null : sourceImageUrl);
+            setDetectedGender(session.detectedGender);
+            setStylePreferences(session.stylePreferences ?? getSuggestedStyle(session.detectedGender) ?? stylePreferences);
+            setStyleSuggestion(null);
+            setGenerationItems(session.items);
+            setGeneratedImages(resumedImages);
+            setIsHistoryOpen(false);
+        } catch (error) {
+            console.error("Failed to resume session:", error);
+            alert("Sorry, that session couldn't be restored.");
+        }
+    };
+
+    // The photos a card is generated from: its squad members', or the single uploaded photo
+    const getSourcePhotos = (item: GenerationItem): string[] => {
+        if (!item.memberIds) {
+            return uploadedImage ? [uploadedImage] : [];
+        }
+        return item.memberIds
+            .map(id => squadMembers.find(member => member.id === id)?.photo)
+            .filter((photo): photo is string => photo !== undefined);
+    };
+
+    // Generates one card, dropping the outcome if the lobby session was abandoned in the meantime.
+    // Runs reuse cached images; asking for another take of a card always pays for a fresh one.
+    const generateCard = (item: GenerationItem, items: GenerationItem[], session: LobbySession, priority: TaskPriority, cache: CacheMode = 'reuse') => lobby.runCard(item.character, session, async signal => {
+        const { character } = item;
+        try {
+            const photos = getSourcePhotos(item);
+            const callOptions = { signal, priority, label: character, cache, sessionId: session.id };
+            let result: GenerationResult;
+            if (isSquadShot(item)) {
+                // Each member's outfit comes from their solo card, in the same order as the photos
+                const memberItems = item.memberIds!
+                    .map(id => items.find(other => !isSquadShot(other) && other.memberIds?.[0] === id))
+                    .filter((memberItem): memberItem is GenerationItem => memberItem !== undefined);
+                result = await generateSquadImage(photos, buildSquadPromptContext(item, memberItems, catalog), callOptions);
+            } else {
+                // A squad member's card can't know how they'd like to be described, so it stays neutral
+                const preferences = item.memberIds ? { ...stylePreferences, description: 'person' as const } : stylePreferences;
+                result = await generateCharacterImage(photos[0], buildPromptContext(item, preferences, catalog), callOptions);
+            }
+            if (!lobby.isCurrentSession(session.id)) return;
+            const variant: CardVariant = {
+                id: crypto.randomUUID(),
+                url: getImageStore().put(result.image),
+                promptTier: result.prompt.tier,
+                createdAt: Date.now(),
+            };
+            setGeneratedImages(prev => ({
+                ...prev,
+                [character]: {
+                    status: 'done',
+                    variants: [...(prev[character]?.variants ?? []), variant],
+                    keptVariantId: variant.id,
+                },
+            }));
+            saveResultToHistory(character, variant, result.prompt);
+        } catch (err) {
+            if (!lobby.isCurrentSession(session.id)) return;
+            if (isAbortError(err)) {
+                // A cancelled re-roll just goes back to the takes the card already has
                 setGeneratedImages(prev => ({
                     ...prev,
-                    [item.character]: { status: 'done', url: resultUrl },
+                    [character]: prev[character]?.variants?.length
+                        ? { ...prev[character], status: 'done' }
+                        : { status: 'error', error: CANCELLED_MESSAGE, errorAction: 'retry' },
                 }));
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            } else {
+                console.error(`Failed to generate image for ${character}:`, err);
+                const error = classifyError(err);
                 setGeneratedImages(prev => ({
                     ...prev,
-                    [item.character]: { status: 'error', error: errorMessage },
+                    [character]: {
+                        ...prev[character],
+                        status: 'error',
+                        error: error.userMessage,
+                        errorAction: error.action,
+                        retryAfterSeconds: error.retryAfterSeconds,
+                    },
                 }));
-                console.error(`Failed to generate image for ${item.character}:`, err);
             }
-        };
+        }
+    });
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (itemsQueue.length > 0) {
-                const item = itemsQueue.shift();
-                if (item) {
-                    await processItem(item);
-                }
+    const setRosterCard = (memberId: string, character: string, image: GeneratedImage) => {
+        setRosterImages(prev => ({ ...prev, [memberId]: { ...prev[memberId], [character]: image } }));
+    };
+
+    // Roster cards keep a single take and are never saved to history; the ZIP is their output
+    const generateRosterCard = async (member: RosterMember, memberIndex: number, item: GenerationItem, session: LobbySession, cache: CacheMode = 'reuse') => {
+        try {
+            const context = buildPromptContext(item, { ...stylePreferences, description: 'person' }, catalog);
+            const result = await generateCharacterImage(member.photo, context, {
+                signal: session.controller.signal,
+                priority: 'batch',
+                label: `${getRosterMemberName(member, memberIndex)}: ${item.character}`,
+                cache,
+                sessionId: session.id,
+            });
+            if (!lobby.isCurrentSession(session.id)) return;
+            const variant: CardVariant = { id: crypto.randomUUID(), url: getImageStore().put(result.image), promptTier: result.prompt.tier, createdAt: Date.now() };
+            setRosterCard(member.id, item.character, { status: 'done', variants: [variant], keptVariantId: variant.id });
+        } catch (error) {
+            if (!lobby.isCurrentSession(session.id)) return;
+            if (isAbortError(error)) {
+                setRosterCard(member.id, item.character, { status: 'error', error: 'Cancelled.', errorAction: 'retry' });
+                return;
             }
+            const classified = classifyError(error);
+            console.error(`Failed to generate ${item.character} for ${getRosterMemberName(member, memberIndex)}:`, classified);
+            setRosterCard(member.id, item.character, { status: 'error', error: classified.userMessage, errorAction: classified.action });
+        }
+    };
+
+    // Starts the given cards of each member, for the lobby to run through the shared scheduler
+    const startRosterCards = (members: RosterMember[], shouldGenerate: (member: RosterMember, item: GenerationItem) => boolean, session: LobbySession, cache: CacheMode = 'reuse') => {
+        const cards = members.flatMap((member, memberIndex) => member.items
+            .filter(item => shouldGenerate(member, item))
+            .map(item => ({ member, memberIndex, item })));
+        cards.forEach(({ member, item }) => setRosterCard(member.id, item.character, { status: 'pending' }));
+        return cards.map(({ member, memberIndex, item }) => generateRosterCard(member, memberIndex, item, session, cache));
+    };
+
+    const handleStartRoster = () => {
+        if (rosterMembers.length === 0) return;
+        const pool = getActiveOutfitPool();
+        const members = rosterMembers.map(member => ({
+            ...member,
+            items: rosterLoadoutMode === 'shared' ? generationItems : createRandomLoadout(catalog, pool, lobby.getLoadoutRng()),
+        }));
+        lobby.runGeneration(session => {
+            setRosterMembers(members);
+            clearRosterCards();
+            setRunCacheMode('reuse');
+            return startRosterCards(members, () => true, session, runCacheMode);
         });
+    };
 
-        await Promise.all(workers);
+    const handleRetryFailedRoster = () => {
+        lobby.runGeneration(session => (
+            startRosterCards(rosterMembers, (member, item) => rosterImages[member.id]?.[item.character]?.status === 'error', session)
+        ));
+    };
 
-        setIsLoading(false);
-        setAppState('results-shown');
+    const handleDownloadRosterZip = async () => {
+        setRosterExportProgress({ done: 0, total: rosterMembers.length });
+        try {
+            const zip = await createRosterZip(rosterMembers.map((member, index) => ({
+                name: getRosterMemberName(member, index),
+                cards: member.items.map(item => {
+                    const image = rosterImages[member.id]?.[item.character];
+                    const kept = getKeptVariant(image);
+                    return { item, url: kept?.url, promptTier: kept?.promptTier, error: image?.status === 'error' ? image.error : undefined };
+                }),
+            })), {
+                loadoutMode: rosterLoadoutMode,
+                album: albumOptions,
+                frame: playerCard.frame,
+                onProgress: (done, total) => setRosterExportProgress({ done, total }),
+            });
+            downloadBlob(zip, ROSTER_ZIP_FILENAME);
+        } catch (error) {
+            console.error("Failed to create roster ZIP:", error);
+            alert("Sorry, there was an error packing your roster. Please try again.");
+        } finally {
+            setRosterExportProgress(null);
+        }
     };
 
     const handleRegenerateCharacter = async (character: string) => {
-        if (!uploadedImage) return;
+        const session = lobby.getSession();
+        if (!session) return;
 
         const itemToRegenerate = generationItems.find(item => item.character === character);
         if (!itemToRegenerate) return;
@@ -256,63 +826,176 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
         if (generatedImages[character]?.status === 'pending') {
             return;
         }
-        
-        console.log(`Regenerating image for ${character}...`);
 
-        // Set the specific character to 'pending' to show the loading spinner
+        // Set the specific character to 'pending' to show the loading spinner; earlier takes are kept
         setGeneratedImages(prev => ({
             ...prev,
-            [character]: { status: 'pending' },
+            [character]: { variants: prev[character]?.variants, keptVariantId: prev[character]?.keptVariantId, status: 'pending' },
         }));
 
-        // Call the generation service for the specific character
-        try {
-            const prompt = generatePrompt(itemToRegenerate, detectedGender);
-            const resultUrl = await generateCharacterImage(uploadedImage, prompt);
-            setGeneratedImages(prev => ({
-                ...prev,
-                [character]: { status: 'done', url: resultUrl },
-            }));
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setGeneratedImages(prev => ({
-                ...prev,
-                [character]: { status: 'error', error: errorMessage },
-            }));
-            console.error(`Failed to regenerate image for ${character}:`, err);
+        // Someone is watching this card, so it goes ahead of any queued batch work, and wants a new take rather than a cached one
+        await generateCard(itemToRegenerate, generationItems, session, 'user', 'fresh');
+    };
+
+    // Swaps a failed card to another outfit from the pool, keeping its map and scene, and tries again
+    const handleChangeOutfit = async (character: string) => {
+        const session = lobby.getSession();
+        if (!session) return;
+
+        const index = generationItems.findIndex(item => item.character === character);
+        if (index === -1 || generatedImages[character]?.status === 'pending') return;
+
+        const takenOutfits = generationItems.map(item => item.character);
+        const availableOutfits = getActiveOutfitPool().filter(outfit => !takenOutfits.includes(outfit));
+        if (availableOutfits.length === 0) return;
+
+        const item: GenerationItem = { ...generationItems[index], character: pickRandom(availableOutfits, lobby.getLoadoutRng()) };
+        const items = generationItems.map((existing, i) => (i === index ? item : existing));
+        generatedImages[character]?.variants?.forEach(variant => getImageStore().revoke(variant.url));
+        setGenerationItems(items);
+        setGeneratedImages(prev => {
+            const { [character]: _replaced, ...rest } = prev;
+            return { ...rest, [item.character]: { status: 'pending' } };
+        });
+
+        const history = historySession.current;
+        if (history) {
+            history.saved
+                .then(() => saveSessionItems(history.id, items))
+                .catch(error => console.error("Failed to update session in history:", error));
         }
+
+        await generateCard(item, items, session, 'user');
     };
-    
+
+    const handleKeepVariant = (character: string, variantId: string) => {
+        setGeneratedImages(prev => ({
+            ...prev,
+            [character]: { ...prev[character], keptVariantId: variantId },
+        }));
+
+        const history = historySession.current;
+        if (history) {
+            history.saved
+                .then(() => saveKeptVariant(history.id, character, variantId))
+                .catch(error => console.error(`Failed to save the kept variant of ${character}:`, error));
+        }
+    };
+
+    // Goes back to a card's earlier takes after a failed re-roll
+    const handleDismissError = (character: string) => {
+        setGeneratedImages(prev => (prev[character]?.variants?.length
+            ? { ...prev, [character]: { variants: prev[character].variants, keptVariantId: prev[character].keptVariantId, status: 'done' } }
+            : prev));
+    };
+
+    const handleCancelCard = (character: string) => {
+        lobby.cancelCard(character);
+    };
+
+    const handleCancelGeneration = () => {
+        lobby.cancelAll();
+    };
+
     const handleReset = () => {
+        lobby.reset();
+        getImageStore().revokeAll();
         setUploadedImage(null);
+        setSquadMembers([]);
+        setRosterMembers([]);
+        setRosterImages({});
         setGeneratedImages({});
         setDetectedGender(null);
+        setStyleSuggestion(null);
         setGenerationItems([]);
-        setAppState('idle');
-        generationTriggered.current = false;
+        setRunCacheMode('reuse');
+        historySession.current = null;
+    };
+
+    const handlePlayerCardChange = (settings: PlayerCardSettings) => {
+        setPlayerCard(settings);
+        savePlayerCardSettings(settings);
+    };
+
+    // The name, rank and stats describe the person who filled them in, so only solo cards carry them
+    const getCardDetails = (item: GenerationItem): PlayerCardDetails => {
+        const details: PlayerCardDetails = { outfit: item.character, map: item.map, title: item.title, frame: playerCard.frame };
+        if (lobbyMode !== 'solo') return details;
+        return { ...details, playerName: playerCard.playerName, rank: playerCard.rank ?? undefined, stats: playerCard.stats };
+    };
+
+    // Squads lay out around their group shot unless a template was picked explicitly
+    const getAlbumOptions = (): AlbumRenderOptions => {
+        const cards: Record<string, PlayerCardDetails> = {};
+        generationItems.forEach(item => {
+            cards[item.character] = getCardDetails(item);
+        });
+        const options: AlbumOptions = lobbyMode === 'squad' && albumOptions.template === 'auto' ? { ...albumOptions, template: 'squad' } : albumOptions;
+        // The same loadout always gets the same album layout
+        return { ...options, cards, seed: hashString(encodeLoadoutCode(generationItems)) };
+    };
+
+    // The first finished card, to preview the player card settings on
+    const getPlayerCardPreview = (): { imageUrl: string; details: PlayerCardDetails } | null => {
+        if (lobbyMode === 'roster') {
+            for (const [index, member] of rosterMembers.entries()) {
+                for (const item of member.items) {
+                    const kept = getKeptVariant(rosterImages[member.id]?.[item.character]);
+                    if (kept) {
+                        return { imageUrl: kept.url, details: { outfit: item.character, map: item.map, frame: playerCard.frame, playerName: getRosterMemberName(member, index) } };
+                    }
+                }
+            }
+            return null;
+        }
+        for (const item of generationItems) {
+            const kept = getKeptVariant(generatedImages[item.character]);
+            if (kept) return { imageUrl: kept.url, details: getCardDetails(item) };
+        }
+        return null;
+    };
+
+    // The kept take of every card that has one, in loadout order
+    const getKeptImageUrls = (): Record<string, string> => {
+        const imageData: Record<string, string> = {};
+        generationItems.forEach(item => {
+            const kept = getKeptVariant(generatedImages[item.character]);
+            if (kept) {
+                imageData[item.character] = kept.url;
+            }
+        });
+        return imageData;
     };
 
-    const handleDownloadIndividualImage = (character: string) => {
-        const image = generatedImages[character];
-        if (image?.status === 'done' && image.url) {
-            const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `pubg-lobby-${character.toLowerCase().replace(/ /g, '-')}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    // Titles are display-only: the card stays keyed by its outfit
+    const handleCardTitleChange = (character: string, title: string) => {
+        const items = generationItems.map(item => (item.character === character ? { ...item, title: title || undefined } : item));
+        setGenerationItems(items);
+
+        const history = historySession.current;
+        if (history) {
+            history.saved
+                .then(() => saveSessionItems(history.id, items))
+                .catch(error => console.error("Failed to save card title to history:", error));
+        }
+    };
+
+    const handleDownloadIndividualImage = async (character: string) => {
+        const kept = getKeptVariant(generatedImages[character]);
+        const item = generationItems.find(other => other.character === character);
+        if (!kept || !item) return;
+        try {
+            downloadBlob(await renderPlayerCard(kept.url, getCardDetails(item)), getCardFilename(item.title || character));
+        } catch (error) {
+            console.error("Failed to render player card:", error);
+            alert("Sorry, there was an error creating your card. Please try again.");
         }
     };
 
     const handleDownloadAlbum = async () => {
         setIsDownloading(true);
         try {
-            const imageData = Object.entries(generatedImages)
-                .filter(([, image]) => image.status === 'done' && image.url)
-                .reduce((acc, [character, image]) => {
-                    acc[character] = image!.url!;
-                    return acc;
-                }, {} as Record<string, string>);
+            const imageData = getKeptImageUrls();
 
             if (Object.keys(imageData).length < generationItems.length) {
                 alert("Please wait for all images to finish generating before downloading the album.");
@@ -320,14 +1003,8 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
                 return;
             }
 
-            const albumDataUrl = await createAlbumPage(imageData);
-
-            const link = document.createElement('a');
-            link.href = albumDataUrl;
-            link.download = 'pubg-lobby-album.jpg';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            const albumPages = await createAlbumPages(imageData, getAlbumOptions());
+            albumPages.forEach((page, index) => downloadBlob(page, getAlbumFilename(index, albumPages.length)));
 
         } catch (error) {
             console.error("Failed to create or download album:", error);
@@ -337,32 +1014,43 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
         }
     };
 
+    const handleDownloadPdf = async () => {
+        const imageData = getKeptImageUrls();
+        if (Object.keys(imageData).length < generationItems.length) {
+            alert("Please wait for all images to finish generating before exporting the PDF.");
+            return;
+        }
+
+        setIsExportingPdf(true);
+        try {
+            const pdf = await createAlbumPdf(imageData, { ...getAlbumOptions(), onePerPage: pdfOnePerPage });
+            downloadBlob(pdf, 'pubg-lobby-album.pdf');
+        } catch (error) {
+            console.error("Failed to create PDF:", error);
+            alert("Sorry, there was an error creating your PDF. Please try again.");
+        } finally {
+            setIsExportingPdf(false);
+        }
+    };
+
     const handleShareIndividualImage = async (character: string) => {
-        const image = generatedImages[character];
-        if (image?.status !== 'done' || !image.url) {
+        const kept = getKeptVariant(generatedImages[character]);
+        const item = generationItems.find(other => other.character === character);
+        if (!kept || !item) {
             alert("Image is not yet ready to be shared.");
             return;
         }
 
-        const text = `Just geared up with the ${character} set in the PUBG Lobby! Check out my AI-generated player card. #PUBGLobby #GoogleAI #nanobanana`;
+        const text = getCardShareText(character, item.title);
 
         try {
-            const response = await fetch(image.url);
-            const blob = await response.blob();
-            const file = new File([blob], `pubg-lobby-${character.toLowerCase().replace(/ /g, '-')}.jpg`, { type: blob.type });
-
-            if (navigator.share && navigator.canShare({ files: [file] })) {
-                await navigator.share({
-                    title: `My PUBG Player Card: ${character}`,
-                    text: text,
-                    files: [file],
-                });
-            } else {
-                // Fallback for browsers that don't support sharing files (e.g., desktop Firefox)
-                const shareUrl = `https://x.com/intent/tweet?text=${encodeURIComponent(text)}`;
-                window.open(shareUrl, '_blank', 'noopener,noreferrer');
-                alert("Your browser doesn't support sharing images directly. Please download the image to share it manually.");
-            }
+            const card = await renderPlayerCard(kept.url, getCardDetails(item));
+            await shareImage(card, {
+                filename: getCardFilename(item.title || character),
+                title: `My PUBG Player Card: ${item.title || character}`,
+                text,
+                fallbackMessage: "Please download the image to share it manually.",
+            });
         } catch (error) {
             console.error('Error sharing image:', error);
             // Fallback for any error during fetch or share
@@ -376,35 +1064,23 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
         const text = `Check out my custom AI-generated PUBG player card album! Created with the PUBG Lobby app. #PUBGLobby #GoogleAI #nanobanana`;
 
         try {
-            const imageData = Object.entries(generatedImages)
-                .filter(([, image]) => image.status === 'done' && image.url)
-                .reduce((acc, [character, image]) => {
-                    acc[character] = image!.url!;
-                    return acc;
-                }, {} as Record<string, string>);
+            const imageData = getKeptImageUrls();
 
             if (Object.keys(imageData).length === 0) {
                 alert("There are no generated images to share in an album.");
                 return;
             }
 
-            const albumDataUrl = await createAlbumPage(imageData);
-            const response = await fetch(albumDataUrl);
-            const blob = await response.blob();
-            const file = new File([blob], 'pubg-lobby-album.jpg', { type: blob.type });
-
-            if (navigator.share && navigator.canShare({ files: [file] })) {
-                await navigator.share({
-                    title: 'My PUBG Lobby Album',
-                    text: text,
-                    files: [file],
-                });
-            } else {
-                // Fallback for browsers that don't support sharing files
-                const shareUrl = `https://x.com/intent/tweet?text=${encodeURIComponent(text)}`;
-                window.open(shareUrl, '_blank', 'noopener,noreferrer');
-                alert("Your browser doesn't support sharing images directly. Please download the album to share it manually.");
-            }
+            const albumPages = await createAlbumPages(imageData, getAlbumOptions());
+            const pageImages = albumPages.map((blob, index) => ({
+                blob,
+                filename: getAlbumFilename(index, albumPages.length),
+            }));
+            await shareImages(pageImages, {
+                title: 'My PUBG Lobby Album',
+                text,
+                fallbackMessage: "Please download the album to share it manually.",
+            });
         } catch (error) {
             console.error("Failed to create or share album:", error);
             alert("Sorry, there was an error creating your album for sharing. Please try again.");
@@ -413,14 +1089,55 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
 
     return (
         <main className="bg-transparent text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 md:p-8 pb-28 overflow-hidden relative">
-            
+            <button
+                onClick={() => setIsDiagnosticsOpen(prev => !prev)}
+                className="fixed top-4 right-40 z-50 p-2 bg-black/50 rounded-full text-neutral-300 hover:text-yellow-500 hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                aria-label="Toggle diagnostics"
+                title="Diagnostics"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+            </button>
+            <button
+                onClick={() => setIsCatalogOpen(true)}
+                className="fixed top-4 right-28 z-50 p-2 bg-black/50 rounded-full text-neutral-300 hover:text-yellow-500 hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                aria-label="Open catalog"
+                title="Catalog"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                </svg>
+            </button>
+            <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="fixed top-4 right-16 z-50 p-2 bg-black/50 rounded-full text-neutral-300 hover:text-yellow-500 hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                aria-label="Open history"
+                title="History"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+            </button>
+            <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="fixed top-4 right-4 z-50 p-2 bg-black/50 rounded-full text-neutral-300 hover:text-yellow-500 hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                aria-label="Open settings"
+                title="Settings"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+            </button>
+
             <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1 min-h-0">
                 <div className="text-center mb-10">
                     <h1 className="text-6xl sm:text-7xl md:text-9xl font-teko text-neutral-100 uppercase" style={{ WebkitTextStroke: '2px #F59E0B', textShadow: '4px 4px 0px #000' }}>PUBG Lobby</h1>
                     <p className="font-roboto text-neutral-300 mt-2 text-lg sm:text-xl tracking-wide">Gear up for the Battlegrounds.</p>
                 </div>
 
-                {appState === 'idle' && (
+                {lobby.phase === 'idle' && (
                      <div className="relative flex flex-col items-center justify-center w-full">
                         {/* Ghost polaroids for intro animation */}
                         {GHOST_POLAROIDS_CONFIG.slice(0, 4).map((config, index) => (
@@ -432,29 +1149,208 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
                                 transition={{ ...config.transition, duration: 2, ease: "easeInOut", opacity: { times: [0, 0.5, 1], duration: 2 }}}
                             />
                         ))}
-                        <PolaroidCard caption="You" status="done" />
-                        <div className="mt-8">
-                             <input type="file" id="file-upload" className="hidden" onChange={handleImageUpload} accept="image/*" />
+                        <div
+                            className={`transition-transform duration-200 ${isDraggingPhoto ? 'scale-105 ring-4 ring-yellow-500' : ''}`}
+                            onDragOver={(e) => { e.preventDefault(); setIsDraggingPhoto(true); }}
+                            onDragLeave={() => setIsDraggingPhoto(false)}
+                            onDrop={handlePhotoDrop}
+                        >
+                            <PolaroidCard caption="You" status="done" />
+                        </div>
+                        {loadoutChallenge && lobbyMode !== 'squad' && (
+                            <div className="mt-8 w-full max-w-md border-2 border-yellow-500/60 bg-zinc-900/80 p-4 text-center">
+                                {loadoutChallenge.items ? (
+                                    <>
+                                        <p className="font-teko text-2xl tracking-wider text-yellow-500">Match My Drop</p>
+                                        <p className="text-sm text-neutral-300 mt-1">
+                                            A friend shared their loadout. Upload your photo to drop in with the same outfits, maps and scenarios.
+                                        </p>
+                                        <ul className="mt-2 text-xs text-neutral-400 space-y-0.5">
+                                            {loadoutChallenge.items.map(item => (
+                                                <li key={item.character}>{item.character} · {item.map}</li>
+                                            ))}
+                                        </ul>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-neutral-300">
+                                        That loadout link didn't work. {loadoutChallenge.error}
+                                    </p>
+                                )}
+                                <button onClick={handleDismissLoadoutChallenge} className="mt-2 font-teko text-lg tracking-wider text-neutral-400 hover:text-white underline">
+                                    {loadoutChallenge.items ? 'Use a Random Loadout Instead' : 'Dismiss'}
+                                </button>
+                            </div>
+                        )}
+                        <div className="mt-8 flex border-2 border-neutral-700" role="group" aria-label="Lobby mode">
+                            {(['solo', 'squad', 'roster'] as LobbyMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => handleLobbyModeChange(mode)}
+                                    aria-pressed={lobbyMode === mode}
+                                    className={`font-teko text-xl tracking-wider px-6 py-1 capitalize transition-colors ${lobbyMode === mode ? 'bg-yellow-500 text-black' : 'text-neutral-400 hover:text-white'}`}
+                                >
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="mt-4 flex flex-col sm:flex-row items-center gap-4">
+                             <input type="file" id="file-upload" className="hidden" multiple={lobbyMode !== 'solo'} onChange={handleImageUpload} accept="image/jpeg,image/png,image/webp,image/gif,image/bmp,image/avif" />
                              <label htmlFor="file-upload" className={`${primaryButtonClasses} cursor-pointer`}>
-                                 Upload Your Photo
+                                 {lobbyMode === 'solo' ? 'Upload Your Photo' : lobbyMode === 'squad' ? 'Upload Squad Photos' : 'Upload Roster Photos'}
                              </label>
+                             <button onClick={() => setIsCameraOpen(true)} className={secondaryButtonClasses}>
+                                 Use Camera
+                             </button>
                         </div>
+                        <p className="mt-4 text-sm text-neutral-500 text-center">
+                            {lobbyMode === 'squad'
+                                ? `Pick ${MIN_SQUAD_SIZE} to ${MAX_SQUAD_SIZE} photos, one per teammate. You can add more on the next screen.`
+                                : lobbyMode === 'roster'
+                                ? `Pick up to ${MAX_ROSTER_SIZE} photos, one per player. Everyone gets their own cards, exported as a ZIP.`
+                                : isMobile ? 'Or paste a photo from your clipboard.' : 'Or drop a photo on the card, or paste one from your clipboard.'}
+                        </p>
+                        {lobbyMode === 'solo' && (
+                            <label className="mt-4 flex items-center gap-2 text-sm text-neutral-400">
+                                <input
+                                    type="checkbox"
+                                    checked={styleSettings.suggestFromPhoto}
+                                    onChange={(e) => handleSuggestFromPhotoChange(e.target.checked)}
+                                    className="accent-yellow-500"
+                                />
+                                Suggest an outfit style from my photo
+                            </label>
+                        )}
+                        {isKeyRequired && (
+                            <p className="mt-6 text-sm text-neutral-400 text-center max-w-sm">
+                                You'll need a Gemini API key to generate images.{' '}
+                                <button onClick={() => setIsSettingsOpen(true)} className="text-yellow-500 hover:text-yellow-400 underline">
+                                    Add your key in Settings
+                                </button>
+                                .
+                            </p>
+                        )}
                      </div>
                 )}
 
-                {appState === 'analyzing' && (
+                {lobby.phase === 'analyzing' && (
                     <div className="flex flex-col items-center">
                         <PolaroidCard caption="Analyzing..." status="pending" />
                         <p className="font-teko text-neutral-300 mt-8 text-3xl tracking-wider">Analyzing photo...</p>
+                        <button onClick={handleReset} className={`${secondaryButtonClasses} mt-6`}>
+                            Cancel
+                        </button>
                     </div>
                 )}
                 
-                {(appState === 'generating' || appState === 'results-shown') && (
+                {lobby.phase === 'building' && lobbyMode === 'squad' && (
+                    <SquadBuilder
+                        members={squadMembers}
+                        items={generationItems}
+                        outfits={getEntryNames(catalog, 'outfits')}
+                        maps={getEntryNames(catalog, 'maps')}
+                        scenarios={getEntryNames(catalog, 'scenarios')}
+                        minSize={MIN_SQUAD_SIZE}
+                        maxSize={MAX_SQUAD_SIZE}
+                        onAddPhotos={handleAddSquadPhotos}
+                        onUseCamera={() => setIsCameraOpen(true)}
+                        onRemoveMember={handleRemoveSquadMember}
+                        onOutfitChange={handleSquadOutfitChange}
+                        onSceneChange={handleSquadSceneChange}
+                        onRandomize={handleRandomizeSquad}
+                        onConfirm={handleConfirmSquad}
+                        onCancel={handleReset}
+                    />
+                )}
+                {lobby.phase === 'building' && lobbyMode === 'roster' && (
+                    <RosterBuilder
+                        members={rosterMembers}
+                        loadoutMode={rosterLoadoutMode}
+                        maxSize={MAX_ROSTER_SIZE}
+                        cardsPerMember={NUM_IMAGES_TO_GENERATE}
+                        onAddPhotos={handleAddRosterPhotos}
+                        onUseCamera={() => setIsCameraOpen(true)}
+                        onNameChange={handleRosterNameChange}
+                        onRemoveMember={handleRemoveRosterMember}
+                        onLoadoutModeChange={setRosterLoadoutMode}
+                        onConfirm={handleStartRoster}
+                        onCancel={handleReset}
+                    >
+                        <LoadoutBuilder
+                            items={generationItems}
+                            outfits={getEntryNames(catalog, 'outfits')}
+                            maps={getEntryNames(catalog, 'maps')}
+                            scenarios={getEntryNames(catalog, 'scenarios')}
+                            onChange={handleLoadoutItemChange}
+                            onRerollSlot={handleRerollLoadoutItem}
+                            onRandomizeAll={handleRandomizeLoadout}
+                        />
+                    </RosterBuilder>
+                )}
+                {lobby.phase === 'building' && lobbyMode === 'solo' && (
+                    <StylePicker
+                        preferences={stylePreferences}
+                        suggestion={styleSuggestion}
+                        onChange={handleStylePreferencesChange}
+                    />
+                )}
+                {lobby.phase === 'building' && lobbyMode === 'solo' && (
+                    <LoadoutBuilder
+                        items={generationItems}
+                        outfits={getEntryNames(catalog, 'outfits')}
+                        maps={getEntryNames(catalog, 'maps')}
+                        scenarios={getEntryNames(catalog, 'scenarios')}
+                        onChange={handleLoadoutItemChange}
+                        onRerollSlot={handleRerollLoadoutItem}
+                        onRandomizeAll={handleRandomizeLoadout}
+                        onConfirm={handleConfirmLoadout}
+                        onCancel={handleReset}
+                    />
+                )}
+                {lobby.phase === 'building' && lobbyMode === 'solo' && (
+                    <div className="mt-4">
+                        <LoadoutCodeBar items={generationItems} />
+                    </div>
+                )}
+                {lobby.phase === 'building' && isCacheEnabled() && (
+                    <label className="mt-4 flex items-center gap-2 text-sm text-neutral-300 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={runCacheMode === 'fresh'}
+                            onChange={(e) => setRunCacheMode(e.target.checked ? 'fresh' : 'reuse')}
+                            className="accent-yellow-500"
+                        />
+                        Make every card fresh this time, skipping cached images
+                    </label>
+                )}
+
+                {(lobby.phase === 'generating' || lobby.phase === 'results-shown') && lobbyMode === 'roster' && (
+                    <RosterProgress
+                        members={rosterMembers}
+                        images={rosterImages}
+                        isRunning={lobby.phase === 'generating'}
+                        isPaused={queueSnapshot.pausedUntil !== null}
+                        exportProgress={rosterExportProgress}
+                        onCancel={handleCancelGeneration}
+                        onRetryFailed={handleRetryFailedRoster}
+                        onDownloadZip={handleDownloadRosterZip}
+                        onCustomizeCard={() => setIsPlayerCardOpen(true)}
+                        onReset={handleReset}
+                    />
+                )}
+
+                {(lobby.phase === 'generating' || lobby.phase === 'results-shown') && lobbyMode !== 'roster' && (
                     <div className="w-full h-full flex flex-col items-center justify-center">
-                        {appState === 'generating' && (
+                        {lobby.phase === 'generating' && (
                              <div className="text-center mb-8">
                                 <h2 className="font-teko text-4xl sm:text-5xl text-yellow-500 tracking-wider">Generating Your Loadout...</h2>
-                                <p className="text-neutral-400 mt-1">Please wait, this can take a minute.</p>
+                                <p className="text-neutral-400 mt-1">
+                                    {queueSnapshot.pausedUntil
+                                        ? "We hit the API's rate limit. Your cards will continue automatically in a moment."
+                                        : "Please wait, this can take a minute."}
+                                </p>
+                                <button onClick={handleCancelGeneration} className={`${secondaryButtonClasses} mt-4`}>
+                                    Cancel
+                                </button>
                              </div>
                         )}
                         <div ref={dragAreaRef} className={`relative w-full h-full flex-1 ${isMobile ? 'flex flex-col items-center overflow-y-auto space-y-8 px-2 sm:px-4' : ''}`}>
@@ -472,25 +1368,64 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
                                     }}
                                 >
                                     <PolaroidCard
-                                        imageUrl={generatedImages[item.character]?.url}
+                                        variants={generatedImages[item.character]?.variants}
+                                        keptVariantId={generatedImages[item.character]?.keptVariantId}
                                         caption={item.character}
+                                        {...getCardHeading(getCardDetails(item))}
+                                        customTitle={item.title}
+                                        onTitleChange={handleCardTitleChange}
                                         status={generatedImages[item.character]?.status ?? 'pending'}
                                         error={generatedImages[item.character]?.error}
+                                        errorAction={generatedImages[item.character]?.errorAction}
+                                        retryAfterSeconds={generatedImages[item.character]?.retryAfterSeconds}
+                                        pendingLabel={getQueueLabel(item.character)}
                                         dragConstraintsRef={dragAreaRef}
                                         onShake={handleRegenerateCharacter}
+                                        onChangeOutfit={isSquadShot(item) ? undefined : handleChangeOutfit}
+                                        onOpenSettings={usesBrowserApiKey() ? () => setIsSettingsOpen(true) : undefined}
                                         onDownload={handleDownloadIndividualImage}
                                         onShare={handleShareIndividualImage}
+                                        onCancel={handleCancelCard}
+                                        onKeepVariant={handleKeepVariant}
+                                        onCompare={setComparedCharacter}
+                                        onDismissError={handleDismissError}
                                         isMobile={isMobile}
                                     />
                                 </motion.div>
                             ))}
                         </div>
 
-                        {appState === 'results-shown' && (
-                           <div className="z-20 mt-6 sm:mt-8 mb-4 flex flex-col sm:flex-row items-center gap-4">
+                        {lobby.phase === 'results-shown' && (
+                           <div className="z-20 mt-6 sm:mt-8 flex flex-col items-center gap-2">
+                               <AlbumOptionsPicker options={albumOptions} onChange={setAlbumOptions} />
+                               <div className="flex flex-wrap items-center justify-center gap-x-5 gap-y-2">
+                                   <button
+                                       onClick={() => setIsPlayerCardOpen(true)}
+                                       className="font-teko text-lg tracking-wider text-yellow-500 hover:text-yellow-400 underline"
+                                   >
+                                       Customize Player Card
+                                   </button>
+                                   <label className="flex items-center gap-2 font-teko text-lg tracking-wider text-neutral-400">
+                                       <input
+                                           type="checkbox"
+                                           checked={pdfOnePerPage}
+                                           onChange={(e) => setPdfOnePerPage(e.target.checked)}
+                                           className="accent-yellow-500"
+                                       />
+                                       One card per page (PDF)
+                                   </label>
+                               </div>
+                               {lobbyMode === 'solo' && <LoadoutCodeBar items={generationItems} />}
+                           </div>
+                        )}
+                        {lobby.phase === 'results-shown' && (
+                           <div className="z-20 mt-4 mb-4 flex flex-col sm:flex-row items-center gap-4">
                                <button onClick={handleDownloadAlbum} className={primaryButtonClasses} disabled={isDownloading}>
                                    {isDownloading ? "Preparing..." : "Download Album"}
                                </button>
+                               <button onClick={handleDownloadPdf} className={primaryButtonClasses} disabled={isExportingPdf}>
+                                   {isExportingPdf ? "Preparing..." : "Download PDF"}
+                               </button>
                                <button onClick={handleShareAlbum} className={primaryButtonClasses}>
                                    Share Album
                                </button>
@@ -503,6 +1438,56 @@ Photo edit request: Change the person in the photo into a ${genderClause} video
                 )}
             </div>
 
+            <HistoryGallery
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                onResume={handleResumeSession}
+            />
+
+            <CameraCapture
+                isOpen={isCameraOpen}
+                onClose={() => setIsCameraOpen(false)}
+                onCapture={handleCameraCapture}
+            />
+
+            <VariantCompare
+                isOpen={comparedCharacter !== null}
+                caption={comparedCharacter ?? ''}
+                variants={(comparedCharacter && generatedImages[comparedCharacter]?.variants) || []}
+                keptVariantId={comparedCharacter ? generatedImages[comparedCharacter]?.keptVariantId : undefined}
+                onKeep={variantId => comparedCharacter && handleKeepVariant(comparedCharacter, variantId)}
+                onClose={() => setComparedCharacter(null)}
+            />
+
+            <PlayerCardEditor
+                isOpen={isPlayerCardOpen}
+                settings={playerCard}
+                onChange={handlePlayerCardChange}
+                preview={isPlayerCardOpen ? getPlayerCardPreview() : null}
+                onClose={() => setIsPlayerCardOpen(false)}
+            />
+
+            <CatalogManager
+                isOpen={isCatalogOpen}
+                packs={catalogPacks}
+                catalog={catalog}
+                onClose={() => setIsCatalogOpen(false)}
+                onPacksChange={setCatalogPacks}
+            />
+
+            <DiagnosticsDrawer
+                isOpen={isDiagnosticsOpen}
+                sessionId={lobby.getSession()?.id ?? null}
+                onClose={() => setIsDiagnosticsOpen(false)}
+            />
+
+            <SettingsPanel
+                isOpen={isSettingsOpen}
+                isKeyRequired={isKeyRequired}
+                onClose={() => setIsSettingsOpen(false)}
+                onKeyChange={() => setIsKeyRequired(isApiKeyRequired())}
+            />
+
             <Footer />
         </main>
     );
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ALBUM_PAGE_SIZE_LABELS, ALBUM_TEMPLATE_LABELS } from '../lib/albumUtils';
+import type { AlbumOptions, AlbumOrientation, AlbumPageSize, AlbumTemplate } from '../lib/albumUtils';
+
+interface AlbumOptionsPickerProps {
+    options: Required<AlbumOptions>;
+    onChange: (options: Required<AlbumOptions>) => void;
+}
+
+const selectClasses = "bg-neutral-900 border border-neutral-700 text-neutral-200 text-sm px-2 py-1 focus:outline-none focus:border-yellow-500";
+const labelClasses = "flex items-center gap-2 font-teko text-lg tracking-wider text-neutral-400";
+
+const AlbumOptionsPicker: React.FC<AlbumOptionsPickerProps> = ({ options, onChange }) => {
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-x-5 gap-y-2">
+            <label className={labelClasses}>
+                Layout
+                <select
+                    className={selectClasses}
+                    value={options.template}
+                    onChange={(e) => onChange({ ...options, template: e.target.value as AlbumTemplate | 'auto' })}
+                >
+                    <option value="auto">Auto</option>
+                    {(Object.keys(ALBUM_TEMPLATE_LABELS) as AlbumTemplate[]).map(template => (
+                        <option key={template} value={template}>{ALBUM_TEMPLATE_LABELS[template]}</option>
+                    ))}
+                </select>
+            </label>
+            <label className={labelClasses}>
+                Page
+                <select
+                    className={selectClasses}
+                    value={options.pageSize}
+                    onChange={(e) => onChange({ ...options, pageSize: e.target.value as AlbumPageSize })}
+                >
+                    {(Object.keys(ALBUM_PAGE_SIZE_LABELS) as AlbumPageSize[]).map(size => (
+                        <option key={size} value={size}>{ALBUM_PAGE_SIZE_LABELS[size]}</option>
+                    ))}
+                </select>
+            </label>
+            {options.pageSize !== 'square' && (
+                <label className={labelClasses}>
+                    Orientation
+                    <select
+                        className={selectClasses}
+                        value={options.orientation}
+                        onChange={(e) => onChange({ ...options, orientation: e.target.value as AlbumOrientation })}
+                    >
+                        <option value="portrait">Portrait</option>
+                        <option value="landscape">Landscape</option>
+                    </select>
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default AlbumOptionsPicker;
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { clearCache, getCacheStats, isCacheEnabled, listCacheEntries, setCacheEnabled } from '../services/generationCache';
+import type { CacheEntry, CacheStats } from '../services/generationCache';
+import { formatBytes } from '../lib/utils';
+
+interface CacheInspectorProps {
+    /** Reloads the cache's contents whenever this turns true, e.g. when the settings open. */
+    isOpen: boolean;
+}
+
+const secondaryButtonClasses = "font-teko text-lg tracking-wider text-white bg-transparent border-2 border-neutral-400 py-1 px-4 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+
+const formatHitRate = (stats: CacheStats): string => {
+    const lookups = stats.hits + stats.misses;
+    if (lookups === 0) return 'No lookups yet this visit';
+    return `${Math.round((stats.hits / lookups) * 100)}% hit rate (${stats.hits} of ${lookups} lookups this visit)`;
+};
+
+const CacheInspector: React.FC<CacheInspectorProps> = ({ isOpen }) => {
+    const [enabled, setEnabled] = useState(isCacheEnabled);
+    const [stats, setStats] = useState<CacheStats | null>(null);
+    const [entries, setEntries] = useState<CacheEntry[]>([]);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const refresh = async () => {
+        try {
+            const [nextStats, nextEntries] = await Promise.all([getCacheStats(), listCacheEntries()]);
+            setStats(nextStats);
+            setEntries(nextEntries);
+        } catch (error) {
+            console.error("Failed to read the generation cache:", error);
+        }
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setEnabled(isCacheEnabled());
+        refresh();
+    }, [isOpen]);
+
+    const handleToggle = (checked: boolean) => {
+        setCacheEnabled(checked);
+        setEnabled(checked);
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm("Delete every cached image? Cards already made stay in history.")) return;
+        setIsClearing(true);
+        try {
+            await clearCache();
+            await refresh();
+        } catch (error) {
+            console.error("Failed to clear the generation cache:", error);
+            alert("Sorry, the cache couldn't be cleared.");
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    return (
+        <section className="mt-6 border-t border-neutral-800 pt-4">
+            <h3 className="font-teko text-2xl tracking-wider text-neutral-200">Generation Cache</h3>
+            <p className="text-neutral-400 text-sm mt-1">
+                Running the same photo and loadout again reuses the images already made instead of paying for new ones.
+                Shaking a card always makes a fresh take, and a single run can skip the cache from the loadout screen.
+                Cached images are kept when you delete history sessions, until you clear the cache here or delete all history.
+            </p>
+
+            <label className="flex items-center gap-2 mt-3 text-sm text-neutral-300 cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => handleToggle(e.target.checked)}
+                    className="accent-yellow-500"
+                />
+                Reuse cached images
+            </label>
+
+            {stats && (
+                <p className="text-sm text-neutral-400 mt-2" role="status">
+                    {formatHitRate(stats)}
+                    {' · '}{stats.entryCount} {stats.entryCount === 1 ? 'image' : 'images'}, {formatBytes(stats.storedBytes)} of {formatBytes(stats.maxBytes)}
+                </p>
+            )}
+
+            {entries.length > 0 && (
+                <ul className="mt-3 max-h-40 overflow-y-auto divide-y divide-neutral-800 border border-neutral-800 text-xs text-neutral-400">
+                    {entries.map(entry => (
+                        <li key={entry.key} className="flex items-center justify-between gap-3 px-3 py-1.5" title={`Key ${entry.key}`}>
+                            <span className="truncate text-neutral-200">{entry.label ?? 'Card'}</span>
+                            <span className="shrink-0">
+                                {entry.promptTier} v{entry.promptVersion} · {formatBytes(entry.sizeBytes)} · {entry.hits} {entry.hits === 1 ? 'reuse' : 'reuses'} · {new Date(entry.lastUsedAt).toLocaleDateString()}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="mt-3">
+                <button onClick={handleClear} className={secondaryButtonClasses} disabled={isClearing || entries.length === 0}>
+                    {isClearing ? 'Clearing...' : 'Clear Cache'}
+                </button>
+            </div>
+        </section>
+    );
+};
+
+export default CacheInspector;
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface CameraCaptureProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Receives the captured frame as a JPEG file, ready for the upload pipeline. */
+    onCapture: (file: File) => void;
+}
+
+const COUNTDOWN_SECONDS = 3;
+
+const primaryButtonClasses = "font-teko text-xl tracking-wider text-black bg-yellow-500 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
+const secondaryButtonClasses = "font-teko text-xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+
+const describeCameraError = (error: unknown): string => {
+    const name = error instanceof DOMException ? error.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+        return "Camera access was blocked. Allow the camera in your browser's site settings and try again.";
+    }
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+        return "No camera was found on this device.";
+    }
+    if (name === 'NotReadableError') {
+        return "Your camera is in use by another app. Close it and try again.";
+    }
+    return "The camera couldn't be started.";
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, onClose, onCapture }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [capturedUrl, setCapturedUrl] = useState<string | null>(null);
+    const capturedBlob = useRef<Blob | null>(null);
+
+    // Start the camera while the dialog is open and stop every track when it closes.
+    useEffect(() => {
+        if (!isOpen) return;
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setError("Camera capture needs a secure (HTTPS) connection and a browser that supports it.");
+            return;
+        }
+
+        let cancelled = false;
+        let activeStream: MediaStream | null = null;
+        setError(null);
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+            .then(mediaStream => {
+                if (cancelled) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                activeStream = mediaStream;
+                setStream(mediaStream);
+            })
+            .catch(cameraError => {
+                console.error("Failed to start camera:", cameraError);
+                if (!cancelled) setError(describeCameraError(cameraError));
+            });
+
+        return () => {
+            cancelled = true;
+            activeStream?.getTracks().forEach(track => track.stop());
+            setStream(null);
+            setCountdown(null);
+            setCapturedUrl(null);
+            capturedBlob.current = null;
+        };
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (videoRef.current && stream) {
+            videoRef.current.srcObject = stream;
+        }
+    }, [stream, capturedUrl]);
+
+    // Release the preview of the last capture when it's replaced or discarded.
+    useEffect(() => {
+        if (!capturedUrl) return;
+        return () => URL.revokeObjectURL(capturedUrl);
+    }, [capturedUrl]);
+
+    const captureFrame = () => {
+        const video = videoRef.current;
+        if (!video || video.videoWidth === 0) return;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        // Only the preview is mirrored like a selfie camera; the capture keeps text in the shot readable.
+        ctx.drawImage(video, 0, 0);
+        canvas.toBlob(blob => {
+            if (!blob) {
+                setError("The photo couldn't be captured. Please try again.");
+                return;
+            }
+            capturedBlob.current = blob;
+            setCapturedUrl(URL.createObjectURL(blob));
+        }, 'image/jpeg', 0.92);
+    };
+
+    useEffect(() => {
+        if (countdown === null) return;
+        if (countdown === 0) {
+            setCountdown(null);
+            captureFrame();
+            return;
+        }
+        const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [countdown]);
+
+    const handleRetake = () => {
+        capturedBlob.current = null;
+        setCapturedUrl(null);
+    };
+
+    const handleUsePhoto = () => {
+        const blob = capturedBlob.current;
+        if (!blob) return;
+        onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby="camera-title"
+                        className="w-full max-w-2xl bg-zinc-900 border-2 border-zinc-700/50 p-6 shadow-lg shadow-yellow-500/10"
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <h2 id="camera-title" className="font-teko text-4xl text-yellow-500 tracking-wider">Take a Photo</h2>
+                        <p className="text-sm text-neutral-400 mt-1">Line your face up with the guide. Good, even lighting gives the best results.</p>
+
+                        <div className="relative mt-4 aspect-video bg-black overflow-hidden">
+                            {capturedUrl ? (
+                                <img src={capturedUrl} alt="Captured photo" className="w-full h-full object-contain" />
+                            ) : (
+                                <>
+                                    <video
+                                        ref={videoRef}
+                                        autoPlay
+                                        playsInline
+                                        muted
+                                        className="w-full h-full object-contain -scale-x-100"
+                                    />
+                                    {stream && (
+                                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none" aria-hidden="true">
+                                            <div className="h-3/4 aspect-[3/4] rounded-[50%] border-4 border-dashed border-yellow-500/70 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" />
+                                        </div>
+                                    )}
+                                    {countdown !== null && countdown > 0 && (
+                                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                                            <span className="font-teko text-9xl text-white" style={{ textShadow: '4px 4px 0px #000' }} aria-live="assertive">{countdown}</span>
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                            {error && (
+                                <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-red-400" role="alert">{error}</div>
+                            )}
+                        </div>
+
+                        <div className="mt-6 flex flex-wrap justify-end gap-3">
+                            <button onClick={onClose} className={secondaryButtonClasses}>Cancel</button>
+                            {capturedUrl ? (
+                                <>
+                                    <button onClick={handleRetake} className={secondaryButtonClasses}>Retake</button>
+                                    <button onClick={handleUsePhoto} className={primaryButtonClasses}>Use Photo</button>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={() => setCountdown(COUNTDOWN_SECONDS)}
+                                    className={primaryButtonClasses}
+                                    disabled={!stream || countdown !== null}
+                                >
+                                    {countdown !== null ? 'Get Ready...' : 'Take Photo'}
+                                </button>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CameraCapture;
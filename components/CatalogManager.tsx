@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState, ChangeEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BUILTIN_CATALOG, CatalogValidationError, serializeCatalog } from '../lib/catalog';
+import type { Catalog, CatalogEntry, CatalogSection } from '../lib/catalog';
+import { importCatalogPack, removeCatalogPack, setCatalogPackEnabled } from '../services/catalogStore';
+import type { StoredCatalogPack } from '../services/catalogStore';
+import { downloadBlob } from '../lib/shareUtils';
+
+interface CatalogManagerProps {
+    isOpen: boolean;
+    packs: StoredCatalogPack[];
+    /** The built-in catalog merged with every enabled pack. */
+    catalog: Catalog;
+    onClose: () => void;
+    onPacksChange: (packs: StoredCatalogPack[]) => void;
+}
+
+const primaryButtonClasses = "font-teko text-xl tracking-wider text-black bg-yellow-500 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400";
+const secondaryButtonClasses = "font-teko text-xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+
+const SECTION_LABELS: Record<CatalogSection, string> = {
+    outfits: 'Outfits',
+    maps: 'Maps',
+    scenarios: 'Scenarios',
+};
+
+const describeTags = (entry: CatalogEntry): string =>
+    [entry.tags.map, entry.tags.season, entry.tags.rarity, entry.tags.style].filter(Boolean).join(' · ');
+
+const exportCatalog = (catalog: Catalog) => {
+    const blob = new Blob([serializeCatalog(catalog)], { type: 'application/json' });
+    downloadBlob(blob, `pubg-lobby-catalog-${catalog.id}.json`);
+};
+
+const CatalogCard: React.FC<{ catalog: Catalog; children?: React.ReactNode }> = ({ catalog, children }) => (
+    <div className="bg-zinc-800 border border-zinc-700/50 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-0">
+                <p className="font-teko text-2xl tracking-wider text-neutral-200 leading-none">{catalog.name}</p>
+                <p className="text-xs text-neutral-500">
+                    {catalog.id} · v{catalog.version} · {catalog.outfits.length} outfits, {catalog.maps.length} maps, {catalog.scenarios.length} scenarios
+                </p>
+            </div>
+            {children}
+        </div>
+        <details className="mt-2 text-sm text-neutral-400">
+            <summary className="cursor-pointer hover:text-neutral-200">Show entries</summary>
+            {(Object.keys(SECTION_LABELS) as CatalogSection[]).filter(section => catalog[section].length > 0).map(section => (
+                <div key={section} className="mt-2">
+                    <p className="font-teko text-lg tracking-wider text-yellow-500">{SECTION_LABELS[section]}</p>
+                    <ul className="space-y-0.5">
+                        {catalog[section].map(entry => (
+                            <li key={entry.name} title={entry.description}>
+                                {entry.name}
+                                {describeTags(entry) && <span className="text-neutral-500"> — {describeTags(entry)}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </details>
+    </div>
+);
+
+const CatalogManager: React.FC<CatalogManagerProps> = ({ isOpen, packs, catalog, onClose, onPacksChange }) => {
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow the same file to be picked again after fixing it
+        if (!file) return;
+
+        try {
+            const updated = importCatalogPack(await file.text());
+            const imported = updated[updated.length - 1].catalog;
+            onPacksChange(updated);
+            setMessage({ text: `Imported "${imported.name}".`, isError: false });
+        } catch (error) {
+            console.error("Failed to import catalog pack:", error);
+            const details = error instanceof CatalogValidationError ? error.message : "The pack couldn't be saved.";
+            setMessage({ text: `Couldn't import ${file.name}: ${details}`, isError: true });
+        }
+    };
+
+    const handleRemove = (pack: StoredCatalogPack) => {
+        if (!confirm(`Remove the "${pack.catalog.name}" pack? Export it first if you want to keep a copy.`)) return;
+        onPacksChange(removeCatalogPack(pack.catalog.id));
+        setMessage(null);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby="catalog-title"
+                        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-zinc-900 border-2 border-zinc-700/50 shadow-lg shadow-yellow-500/10"
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="p-6 pb-4 border-b border-zinc-700/50">
+                            <div className="flex items-center justify-between gap-4">
+                                <h2 id="catalog-title" className="font-teko text-4xl text-yellow-500 tracking-wider">Catalog</h2>
+                                <button onClick={onClose} className={secondaryButtonClasses}>Close</button>
+                            </div>
+                            <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-neutral-400">
+                                <span>
+                                    Offering {catalog.outfits.length} outfits, {catalog.maps.length} maps and {catalog.scenarios.length} scenarios
+                                </span>
+                                <div className="flex gap-2 sm:ml-auto">
+                                    <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                                    <button onClick={() => fileInputRef.current?.click()} className={primaryButtonClasses}>Import Pack</button>
+                                </div>
+                            </div>
+                            {message && (
+                                <p className={`text-sm mt-3 ${message.isError ? 'text-red-400' : 'text-green-400'}`} role="status">{message.text}</p>
+                            )}
+                        </div>
+
+                        <div className="overflow-y-auto p-6 space-y-4">
+                            <CatalogCard catalog={BUILTIN_CATALOG}>
+                                <span className="text-xs uppercase tracking-wider text-neutral-500">Built-in</span>
+                                <button onClick={() => exportCatalog(BUILTIN_CATALOG)} className={secondaryButtonClasses}>Export</button>
+                            </CatalogCard>
+                            {packs.map(pack => (
+                                <CatalogCard key={pack.catalog.id} catalog={pack.catalog}>
+                                    <label className="flex items-center gap-2 font-teko text-lg tracking-wider text-neutral-400">
+                                        <input
+                                            type="checkbox"
+                                            checked={pack.enabled}
+                                            onChange={(e) => onPacksChange(setCatalogPackEnabled(pack.catalog.id, e.target.checked))}
+                                            className="accent-yellow-500"
+                                        />
+                                        Enabled
+                                    </label>
+                                    <button onClick={() => exportCatalog(pack.catalog)} className={secondaryButtonClasses}>Export</button>
+                                    <button onClick={() => handleRemove(pack)} className={secondaryButtonClasses}>Remove</button>
+                                </CatalogCard>
+                            ))}
+                            {packs.length === 0 && (
+                                <p className="text-neutral-400 text-center py-6 text-sm">
+                                    No custom packs yet. Export the built-in catalog for an example of the format, then import your own pack to add new outfits, maps and scenarios.
+                                </p>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CatalogManager;
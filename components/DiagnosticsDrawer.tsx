@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { exportTelemetryJson, getTelemetryLog, summarizeEvents } from '../services/telemetry';
+import type { CallEvent, CallOutcome, TelemetryTotals } from '../services/telemetry';
+import { downloadBlob } from '../lib/shareUtils';
+import { formatBytes } from '../lib/utils';
+
+interface DiagnosticsDrawerProps {
+    isOpen: boolean;
+    /** The current lobby session, whose calls are totalled separately. */
+    sessionId: string | null;
+    onClose: () => void;
+}
+
+interface TotalsPanelProps {
+    title: string;
+    totals: TelemetryTotals;
+}
+
+const secondaryButtonClasses = "font-teko text-lg tracking-wider text-white bg-transparent border-2 border-neutral-400 py-1 px-4 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+
+const OUTCOME_CLASSES: Record<CallOutcome, string> = {
+    success: 'text-green-400',
+    cached: 'text-sky-400',
+    blocked: 'text-orange-400',
+    aborted: 'text-neutral-500',
+    failed: 'text-red-400',
+};
+
+const formatCost = (usd: number): string => `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+
+const formatDuration = (ms: number): string => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const TotalsPanel: React.FC<TotalsPanelProps> = ({ title, totals }) => (
+    <div className="border border-neutral-800 p-3">
+        <h3 className="font-teko text-xl tracking-wider text-neutral-200">{title}</h3>
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs text-neutral-400">
+            <dt>Calls</dt><dd className="text-right text-neutral-200">{totals.calls}</dd>
+            <dt>Attempts</dt><dd className="text-right text-neutral-200">{totals.attempts}</dd>
+            <dt>Cache hits</dt><dd className="text-right text-neutral-200">{totals.cacheHits}</dd>
+            <dt>Failures</dt><dd className="text-right text-neutral-200">{totals.failures}</dd>
+            <dt>Sent / received</dt><dd className="text-right text-neutral-200">{formatBytes(totals.bytesIn)} / {formatBytes(totals.bytesOut)}</dd>
+            <dt>Avg. latency</dt><dd className="text-right text-neutral-200">{formatDuration(totals.averageLatencyMs)}</dd>
+            <dt>Est. cost</dt><dd className="text-right text-yellow-500">{formatCost(totals.estimatedCostUsd)}</dd>
+        </dl>
+    </div>
+);
+
+const DiagnosticsDrawer: React.FC<DiagnosticsDrawerProps> = ({ isOpen, sessionId, onClose }) => {
+    const [events, setEvents] = useState<CallEvent[]>(() => getTelemetryLog().getEvents());
+
+    useEffect(() => getTelemetryLog().subscribe(setEvents), []);
+
+    const sessionEvents = events.filter(event => sessionId !== null && event.sessionId === sessionId);
+
+    const handleExport = () => {
+        const json = exportTelemetryJson(events);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        downloadBlob(new Blob([json], { type: 'application/json' }), `pubg-lobby-diagnostics-${timestamp}.json`);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.aside
+                    role="dialog"
+                    aria-labelledby="diagnostics-title"
+                    className="fixed inset-y-0 right-0 z-[60] flex w-full max-w-md flex-col bg-zinc-900 border-l-2 border-zinc-700/50 shadow-lg shadow-yellow-500/10"
+                    initial={{ x: '100%' }}
+                    animate={{ x: 0 }}
+                    exit={{ x: '100%' }}
+                    transition={{ type: 'tween', duration: 0.2 }}
+                >
+                    <div className="flex items-center justify-between p-4 border-b border-neutral-800">
+                        <h2 id="diagnostics-title" className="font-teko text-3xl text-yellow-500 tracking-wider">Diagnostics</h2>
+                        <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close diagnostics">&times;</button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3 p-4">
+                        <TotalsPanel title="This Session" totals={summarizeEvents(sessionEvents)} />
+                        <TotalsPanel title="Since Page Load" totals={summarizeEvents(events)} />
+                    </div>
+                    <p className="px-4 text-xs text-neutral-500">Costs are estimated from list prices; cache hits and failed attempts are free.</p>
+
+                    <ol className="mt-3 flex-1 overflow-y-auto divide-y divide-neutral-800 border-y border-neutral-800 text-xs">
+                        {events.length === 0 && (
+                            <li className="p-4 text-neutral-500">No model calls yet.</li>
+                        )}
+                        {[...events].reverse().map(event => (
+                            <li key={event.id} className="px-4 py-2">
+                                <div className="flex items-center justify-between gap-3">
+                                    <span className="truncate text-neutral-200">{event.label ?? event.kind}</span>
+                                    <span className={`shrink-0 uppercase tracking-wider ${OUTCOME_CLASSES[event.outcome]}`}>{event.outcome}</span>
+                                </div>
+                                <div className="text-neutral-400">
+                                    {event.model}
+                                    {event.promptTier && ` · ${event.promptTier} v${event.promptVersion}${event.isFallback ? ' (fallback)' : ''}`}
+                                </div>
+                                <div className="text-neutral-500">
+                                    {event.attempts} {event.attempts === 1 ? 'attempt' : 'attempts'} · {formatDuration(event.latencyMs)}
+                                    {event.waitMs > 0 && ` (${formatDuration(event.waitMs)} queued)`}
+                                    {' · '}{formatBytes(event.bytesIn)} in / {formatBytes(event.bytesOut)} out · {formatCost(event.estimatedCostUsd)}
+                                </div>
+                                {event.errorClass && (
+                                    <div className="text-red-400/80 truncate" title={event.errorMessage}>{event.errorClass}: {event.errorMessage}</div>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+
+                    <div className="flex flex-wrap gap-3 p-4">
+                        <button onClick={handleExport} className={secondaryButtonClasses} disabled={events.length === 0}>
+                            Export JSON
+                        </button>
+                        <button onClick={() => getTelemetryLog().clear()} className={secondaryButtonClasses} disabled={events.length === 0}>
+                            Clear
+                        </button>
+                    </div>
+                </motion.aside>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default DiagnosticsDrawer;
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { listSessions, deleteSessions, clearHistory, getStorageUsage } from '../services/historyStore';
+import { clearCache } from '../services/generationCache';
+import type { HistorySession, StorageUsage } from '../services/historyStore';
+import { downloadBlob, getCardFilename, getCardShareText, shareImage } from '../lib/shareUtils';
+import { formatBytes } from '../lib/utils';
+import type { GenerationItem } from '../types';
+
+interface HistoryGalleryProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onResume: (session: HistorySession) => void;
+}
+
+const primaryButtonClasses = "font-teko text-xl tracking-wider text-black bg-yellow-500 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400";
+const secondaryButtonClasses = "font-teko text-xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+const iconButtonClasses = "p-1.5 bg-black/60 rounded-full text-white hover:bg-black/80 focus:outline-none focus:ring-2 focus:ring-white";
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ isOpen, onClose, onResume }) => {
+    const [sessions, setSessions] = useState<HistorySession[]>([]);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(false);
+    const [imageUrls, setImageUrls] = useState<Map<Blob, string>>(new Map());
+
+    const refresh = async () => {
+        setIsLoading(true);
+        try {
+            const [storedSessions, storageUsage] = await Promise.all([listSessions(), getStorageUsage()]);
+            setSessions(storedSessions);
+            setUsage(storageUsage);
+            setSelectedIds(prev => new Set([...prev].filter(id => storedSessions.some(session => session.id === id))));
+        } catch (error) {
+            console.error("Failed to load history:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) refresh();
+    }, [isOpen]);
+
+    // Hand out object URLs for every stored image, keyed by the Blob they point at,
+    // and revoke them when the sessions change or the gallery unmounts.
+    useEffect(() => {
+        const urls = new Map<Blob, string>();
+        sessions.forEach((session: HistorySession) => {
+            urls.set(session.sourceImage, URL.createObjectURL(session.sourceImage));
+            Object.values(session.results).forEach(result => urls.set(result.image, URL.createObjectURL(result.image)));
+        });
+        setImageUrls(urls);
+        return () => urls.forEach(url => URL.revokeObjectURL(url));
+    }, [sessions]);
+
+    const toggleSelected = (sessionId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(sessionId)) {
+                next.delete(sessionId);
+            } else {
+                next.add(sessionId);
+            }
+            return next;
+        });
+    };
+
+    const handleDelete = async (sessionIds: string[]) => {
+        if (sessionIds.length === 0) return;
+        const label = sessionIds.length === 1 ? 'this session' : `${sessionIds.length} sessions`;
+        if (!confirm(`Delete ${label} and all of its cards? This can't be undone. Their images stay in the generation cache until you clear it in Settings.`)) return;
+        try {
+            await deleteSessions(sessionIds);
+        } catch (error) {
+            console.error("Failed to delete sessions:", error);
+            alert("Sorry, those sessions couldn't be deleted.");
+        }
+        await refresh();
+    };
+
+    const handlePurge = async () => {
+        if (!confirm("Delete your entire history and every cached image? This can't be undone.")) return;
+        try {
+            // The cache holds copies of the same cards, so they go too
+            await Promise.all([clearHistory(), clearCache()]);
+        } catch (error) {
+            console.error("Failed to clear history:", error);
+            alert("Sorry, your history couldn't be cleared.");
+        }
+        await refresh();
+    };
+
+    const handleShare = async (item: GenerationItem, image: Blob) => {
+        const { character, title } = item;
+        try {
+            await shareImage(image, {
+                filename: getCardFilename(title || character),
+                title: `My PUBG Player Card: ${title || character}`,
+                text: getCardShareText(character, title),
+                fallbackMessage: "Please download the image to share it manually.",
+            });
+        } catch (error) {
+            console.error('Error sharing image:', error);
+            alert("Could not share image. Please download it and share manually.");
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby="history-title"
+                        className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-zinc-900 border-2 border-zinc-700/50 shadow-lg shadow-yellow-500/10"
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="p-6 pb-4 border-b border-zinc-700/50">
+                            <div className="flex items-center justify-between gap-4">
+                                <h2 id="history-title" className="font-teko text-4xl text-yellow-500 tracking-wider">Match History</h2>
+                                <button onClick={onClose} className={secondaryButtonClasses}>Close</button>
+                            </div>
+                            <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-neutral-400">
+                                <span>
+                                    {sessions.length} {sessions.length === 1 ? 'session' : 'sessions'}
+                                    {usage && ` · Using ${formatBytes(usage.usedBytes)} of ${formatBytes(usage.quotaBytes)}`}
+                                </span>
+                                <div className="flex gap-2 sm:ml-auto">
+                                    <button
+                                        onClick={() => handleDelete([...selectedIds])}
+                                        className={secondaryButtonClasses}
+                                        disabled={selectedIds.size === 0}
+                                    >
+                                        Delete Selected{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+                                    </button>
+                                    <button onClick={handlePurge} className={secondaryButtonClasses} disabled={sessions.length === 0}>
+                                        Delete All
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="overflow-y-auto p-6 space-y-4">
+                            {!isLoading && sessions.length === 0 && (
+                                <p className="text-neutral-400 text-center py-12">No saved sessions yet. Your generated cards will show up here.</p>
+                            )}
+                            {sessions.map(session => (
+                                <div key={session.id} className="bg-zinc-800 border border-zinc-700/50 p-4">
+                                    <div className="flex items-center gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.has(session.id)}
+                                            onChange={() => toggleSelected(session.id)}
+                                            className="accent-yellow-500"
+                                            aria-label={`Select session from ${new Date(session.createdAt).toLocaleString()}`}
+                                        />
+                                        <img
+                                            src={imageUrls.get(session.sourceImage)}
+                                            alt="Uploaded photo"
+                                            className="w-12 h-12 object-cover border border-zinc-600"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-teko text-2xl tracking-wider text-neutral-200 leading-none">
+                                                {new Date(session.createdAt).toLocaleString()}
+                                            </p>
+                                            <p className="text-xs text-neutral-500">
+                                                {Object.keys(session.results).length} of {session.items.length} cards
+                                            </p>
+                                        </div>
+                                        <button onClick={() => onResume(session)} className={primaryButtonClasses}>Resume</button>
+                                        <button onClick={() => handleDelete([session.id])} className={secondaryButtonClasses}>Delete</button>
+                                    </div>
+
+                                    <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                        {session.items.map(item => {
+                                            const result = session.results[item.character];
+                                            return (
+                                                <div key={item.character} className="relative group aspect-[3/4] bg-black overflow-hidden">
+                                                    {result ? (
+                                                        <>
+                                                            <img
+                                                                src={imageUrls.get(result.image)}
+                                                                alt={item.character}
+                                                                title={result.prompt.trim()}
+                                                                className="w-full h-full object-cover"
+                                                            />
+                                                            <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                                                <button
+                                                                    onClick={() => downloadBlob(result.image, getCardFilename(item.title || item.character))}
+                                                                    className={iconButtonClasses}
+                                                                    aria-label={`Download image for ${item.character}`}
+                                                                >
+                                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                                                        <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                                                    </svg>
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => handleShare(item, result.image)}
+                                                                    className={iconButtonClasses}
+                                                                    aria-label={`Share image for ${item.character}`}
+                                                                >
+                                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                                                        <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
+                                                                    </svg>
+                                                                </button>
+                                                            </div>
+                                                        </>
+                                                    ) : (
+                                                        <div className="flex items-center justify-center h-full text-neutral-600 text-xs p-2 text-center">Not generated</div>
+                                                    )}
+                                                    <p className="absolute bottom-0 inset-x-0 bg-black/70 px-2 py-1 font-teko text-lg tracking-wider text-neutral-300 truncate">
+                                                        {item.character}
+                                                    </p>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default HistoryGallery;
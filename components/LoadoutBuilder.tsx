@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import type { GenerationItem } from '../types';
+
+interface LoadoutBuilderProps {
+    items: GenerationItem[];
+    outfits: string[];
+    maps: string[];
+    scenarios: string[];
+    onChange: (index: number, item: GenerationItem) => void;
+    onRerollSlot: (index: number) => void;
+    onRandomizeAll: () => void;
+    /** Without these, the Drop In and Return buttons are left out, e.g. when the loadout is part of a bigger form. */
+    onConfirm?: () => void;
+    onCancel?: () => void;
+}
+
+const selectClasses = "w-full bg-neutral-900 border border-neutral-700 text-neutral-200 text-sm px-2 py-2 focus:outline-none focus:border-yellow-500";
+const labelClasses = "block font-teko text-lg tracking-wider text-neutral-400 mb-1";
+const primaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-black bg-yellow-500 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400";
+const secondaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+
+const LoadoutBuilder: React.FC<LoadoutBuilderProps> = ({ items, outfits, maps, scenarios, onChange, onRerollSlot, onRandomizeAll, onConfirm, onCancel }) => {
+    return (
+        <div className="w-full max-w-5xl flex flex-col items-center">
+            <div className="text-center mb-6">
+                <h2 className="font-teko text-4xl sm:text-5xl text-yellow-500 tracking-wider">Build Your Loadout</h2>
+                <p className="text-neutral-400 mt-1">Pick an outfit, drop location and scenario for each card, or let fate decide.</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full">
+                {items.map((item, index) => {
+                    // Outfits double as card keys, so each one can only be used by a single slot.
+                    const takenOutfits = items.filter((_, i) => i !== index).map(other => other.character);
+                    return (
+                        <motion.div
+                            key={index}
+                            className="bg-zinc-800 border-2 border-zinc-700/50 p-4 shadow-lg shadow-yellow-500/10"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ duration: 0.3, delay: index * 0.05 }}
+                        >
+                            <div className="flex items-center justify-between mb-3">
+                                <span className="font-teko text-2xl tracking-wider text-neutral-200">Slot {index + 1}</span>
+                                <button
+                                    onClick={() => onRerollSlot(index)}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Re-roll slot ${index + 1}`}
+                                    title="Re-roll this slot"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.899 2.186l-1.42.71a5.002 5.002 0 00-8.479-1.554H10a1 1 0 110 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm12 14a1 1 0 01-1-1v-2.101a7.002 7.002 0 01-11.899-2.186l1.42-.71a5.002 5.002 0 008.479 1.554H10a1 1 0 110-2h6a1 1 0 011 1v6a1 1 0 01-1 1z" clipRule="evenodd" />
+                                    </svg>
+                                </button>
+                            </div>
+
+                            <div className="space-y-3">
+                                <div>
+                                    <label htmlFor={`loadout-outfit-${index}`} className={labelClasses}>Outfit</label>
+                                    <select
+                                        id={`loadout-outfit-${index}`}
+                                        className={selectClasses}
+                                        value={item.character}
+                                        onChange={(e) => onChange(index, { ...item, character: e.target.value })}
+                                    >
+                                        {outfits.map(outfit => (
+                                            <option key={outfit} value={outfit} disabled={takenOutfits.includes(outfit)}>
+                                                {outfit}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor={`loadout-map-${index}`} className={labelClasses}>Map</label>
+                                    <select
+                                        id={`loadout-map-${index}`}
+                                        className={selectClasses}
+                                        value={item.map}
+                                        onChange={(e) => onChange(index, { ...item, map: e.target.value })}
+                                    >
+                                        {maps.map(map => (
+                                            <option key={map} value={map}>{map}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor={`loadout-scenario-${index}`} className={labelClasses}>Scenario</label>
+                                    <select
+                                        id={`loadout-scenario-${index}`}
+                                        className={cn(selectClasses, 'capitalize')}
+                                        value={item.scenario}
+                                        onChange={(e) => onChange(index, { ...item, scenario: e.target.value })}
+                                    >
+                                        {scenarios.map(scenario => (
+                                            <option key={scenario} value={scenario}>{scenario}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                        </motion.div>
+                    );
+                })}
+            </div>
+
+            <div className="mt-6 sm:mt-8 mb-4 flex flex-col sm:flex-row items-center gap-4">
+                {onConfirm && (
+                    <button onClick={onConfirm} className={primaryButtonClasses}>
+                        Drop In
+                    </button>
+                )}
+                <button onClick={onRandomizeAll} className={secondaryButtonClasses}>
+                    Randomize All
+                </button>
+                {onCancel && (
+                    <button onClick={onCancel} className={secondaryButtonClasses}>
+                        Return to Lobby
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LoadoutBuilder;
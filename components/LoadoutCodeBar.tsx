@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { encodeLoadoutCode, getLoadoutLink } from '../lib/loadoutCode';
+import type { GenerationItem } from '../types';
+
+interface LoadoutCodeBarProps {
+    items: GenerationItem[];
+}
+
+// How long the "Copied!" confirmation stays up
+const COPIED_MS = 2000;
+
+const linkButtonClasses = "font-teko text-lg tracking-wider text-yellow-500 hover:text-yellow-400 underline";
+
+const LoadoutCodeBar: React.FC<LoadoutCodeBarProps> = ({ items }) => {
+    const [copied, setCopied] = useState<'code' | 'link' | null>(null);
+    const code = encodeLoadoutCode(items);
+
+    useEffect(() => {
+        if (!copied) return;
+        const timer = setTimeout(() => setCopied(null), COPIED_MS);
+        return () => clearTimeout(timer);
+    }, [copied]);
+
+    const handleCopy = async (kind: 'code' | 'link') => {
+        const text = kind === 'code' ? code : getLoadoutLink(code);
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(kind);
+        } catch (error) {
+            // Clipboard access can be blocked (e.g. in an iframe), so let the user copy it by hand
+            console.error("Failed to copy loadout:", error);
+            window.prompt(kind === 'code' ? "Copy your loadout code:" : "Copy your challenge link:", text);
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-sm text-neutral-400">
+            <span>
+                Loadout code:{' '}
+                <code className="inline-block max-w-[16rem] truncate align-bottom font-mono text-neutral-200" title="Anyone with this code gets the same outfits, maps and scenarios">
+                    {code}
+                </code>
+            </span>
+            <button onClick={() => handleCopy('code')} className={linkButtonClasses}>
+                {copied === 'code' ? 'Copied!' : 'Copy Code'}
+            </button>
+            <button onClick={() => handleCopy('link')} className={linkButtonClasses}>
+                {copied === 'link' ? 'Copied!' : 'Copy Challenge Link'}
+            </button>
+        </div>
+    );
+};
+
+export default LoadoutCodeBar;
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PLAYER_CARD_FRAMES, RANK_TIERS, renderPlayerCard } from '../lib/playerCard';
+import type { PlayerCardDetails, PlayerCardFrame, PlayerStats, RankTier } from '../lib/playerCard';
+import type { PlayerCardSettings } from '../services/playerCardStore';
+
+interface PlayerCardEditorProps {
+    isOpen: boolean;
+    settings: PlayerCardSettings;
+    onChange: (settings: PlayerCardSettings) => void;
+    /** A finished card to preview the settings on, with the details it would be drawn with. */
+    preview: { imageUrl: string; details: PlayerCardDetails } | null;
+    onClose: () => void;
+}
+
+const STAT_INPUTS: { key: keyof PlayerStats; label: string; step: string }[] = [
+    { key: 'kd', label: 'K/D', step: '0.01' },
+    { key: 'wins', label: 'Wins', step: '1' },
+    { key: 'damage', label: 'Avg. Damage', step: '1' },
+];
+
+// Wait for typing to settle before redrawing the full-size preview
+const PREVIEW_DELAY_MS = 250;
+
+const inputClasses = "w-full bg-neutral-950 border border-neutral-700 text-neutral-200 text-sm px-3 py-2 focus:outline-none focus:border-yellow-500";
+const labelClasses = "block font-teko text-xl tracking-wider text-neutral-400 mb-1";
+const secondaryButtonClasses = "font-teko text-xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-2 px-6 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+
+const PlayerCardEditor: React.FC<PlayerCardEditorProps> = ({ isOpen, settings, onChange, preview, onClose }) => {
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen || !preview) {
+            setPreviewUrl(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            renderPlayerCard(preview.imageUrl, preview.details)
+                .then(card => { if (!cancelled) setPreviewUrl(URL.createObjectURL(card)); })
+                .catch(error => console.error("Failed to render card preview:", error));
+        }, PREVIEW_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isOpen, preview?.imageUrl, JSON.stringify(preview?.details)]);
+
+    // Release each preview once the next one (or closing the editor) replaces it
+    useEffect(() => () => {
+        if (previewUrl) URL.revokeObjectURL(previewUrl);
+    }, [previewUrl]);
+
+    const handleStatChange = (key: keyof PlayerStats, value: string) => {
+        const number = value === '' ? undefined : Number(value);
+        onChange({
+            ...settings,
+            stats: { ...settings.stats, [key]: number !== undefined && Number.isFinite(number) && number >= 0 ? number : undefined },
+        });
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby="player-card-title"
+                        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-zinc-900 border-2 border-zinc-700/50 p-6 shadow-lg shadow-yellow-500/10"
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <h2 id="player-card-title" className="font-teko text-4xl text-yellow-500 tracking-wider">Player Card</h2>
+                        <p className="text-neutral-300 text-sm mt-1">
+                            Downloads and the album frame every card with these details. Leave a field blank to hide it.
+                        </p>
+
+                        <div className="mt-5 grid grid-cols-1 sm:grid-cols-2 gap-6">
+                            <div className="flex items-start justify-center">
+                                {previewUrl ? (
+                                    <img src={previewUrl} alt="Card preview" className="w-full max-w-xs shadow-lg" />
+                                ) : (
+                                    <div className="w-full max-w-xs aspect-[4/5] bg-neutral-800 flex items-center justify-center text-neutral-500 text-sm">
+                                        {preview ? 'Drawing preview...' : 'Finish a card to see a preview.'}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="space-y-4">
+                                <div>
+                                    <label htmlFor="player-card-name" className={labelClasses}>Player Name</label>
+                                    <input
+                                        id="player-card-name"
+                                        type="text"
+                                        className={inputClasses}
+                                        value={settings.playerName}
+                                        onChange={(e) => onChange({ ...settings, playerName: e.target.value })}
+                                        placeholder="Your in-game name"
+                                        maxLength={32}
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label htmlFor="player-card-rank" className={labelClasses}>Rank</label>
+                                        <select
+                                            id="player-card-rank"
+                                            className={inputClasses}
+                                            value={settings.rank ?? ''}
+                                            onChange={(e) => onChange({ ...settings, rank: (e.target.value || null) as RankTier | null })}
+                                        >
+                                            <option value="">None</option>
+                                            {(Object.keys(RANK_TIERS) as RankTier[]).map(rank => (
+                                                <option key={rank} value={rank}>{RANK_TIERS[rank].label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="player-card-frame" className={labelClasses}>Frame</label>
+                                        <select
+                                            id="player-card-frame"
+                                            className={inputClasses}
+                                            value={settings.frame}
+                                            onChange={(e) => onChange({ ...settings, frame: e.target.value as PlayerCardFrame })}
+                                        >
+                                            {(Object.keys(PLAYER_CARD_FRAMES) as PlayerCardFrame[]).map(frame => (
+                                                <option key={frame} value={frame}>{PLAYER_CARD_FRAMES[frame].label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-3 gap-3">
+                                    {STAT_INPUTS.map(stat => (
+                                        <div key={stat.key}>
+                                            <label htmlFor={`player-card-${stat.key}`} className={labelClasses}>{stat.label}</label>
+                                            <input
+                                                id={`player-card-${stat.key}`}
+                                                type="number"
+                                                min="0"
+                                                step={stat.step}
+                                                className={inputClasses}
+                                                value={settings.stats[stat.key] ?? ''}
+                                                onChange={(e) => handleStatChange(stat.key, e.target.value)}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end">
+                            <button onClick={onClose} className={secondaryButtonClasses}>
+                                Done
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PlayerCardEditor;
@@ -6,37 +6,188 @@ import React, { useState, useEffect, useRef } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
 import { cn } from '../lib/utils';
 import type { PanInfo } from 'framer-motion';
+import type { CardVariant, ErrorAction, PromptTier } from '../types';
 
 type ImageStatus = 'pending' | 'done' | 'error';
 
 interface PolaroidCardProps {
+    /** A fixed image, for cards without variants. */
     imageUrl?: string;
+    /** Every finished take of the card, oldest first. The newest is shown when it arrives. */
+    variants?: CardVariant[];
+    /** The take the album and downloads use. */
+    keptVariantId?: string;
+    /** Identifies the card in callbacks, and is its title unless `title` is given. */
     caption: string;
+    /** What the card shows as its title, e.g. a gamer tag. */
+    title?: string;
+    /** A smaller line under the title, e.g. the outfit and map. */
+    subtitle?: string | null;
+    /** The title the user typed for this card, if any, to start editing from. */
+    customTitle?: string;
+    /** Makes the title editable; an empty title goes back to the default. */
+    onTitleChange?: (caption: string, title: string) => void;
     status: ImageStatus;
     error?: string;
+    /** What the error view offers. Defaults to trying again. */
+    errorAction?: ErrorAction;
+    /** For 'wait' errors, how long the retry button stays disabled. */
+    retryAfterSeconds?: number;
+    /** Shown under the spinner while pending, e.g. "Queued #3". */
+    pendingLabel?: string;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
     onShake?: (caption: string) => void;
+    /** Swaps the card to a different outfit and tries again. */
+    onChangeOutfit?: (caption: string) => void;
+    /** Offered when the API key was rejected; only a browser-side key can be fixed in Settings. */
+    onOpenSettings?: () => void;
     onDownload?: (caption: string) => void;
     onShare?: (caption: string) => void;
+    onCancel?: (caption: string) => void;
+    onKeepVariant?: (caption: string, variantId: string) => void;
+    /** Opens every take side by side. */
+    onCompare?: (caption: string) => void;
+    /** Leaves a failed re-roll and goes back to the earlier takes. */
+    onDismissError?: (caption: string) => void;
     isMobile?: boolean;
 }
 
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center h-full">
+const LoadingSpinner = ({ label }: { label?: string }) => (
+    <div className="flex flex-col items-center justify-center h-full">
         <svg className="animate-spin h-8 w-8 text-yellow-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
         </svg>
+        {label && <span className="mt-3 font-teko text-xl tracking-wider text-neutral-400">{label}</span>}
     </div>
 );
 
-const ErrorDisplay = () => (
-    <div className="flex items-center justify-center h-full">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-    </div>
-);
+const FALLBACK_TIER_LABELS: Partial<Record<PromptTier, string>> = {
+    'simplified-scene': 'Simplified',
+    'outfit-only': 'Outfit Only',
+};
+
+const errorButtonClasses = "font-teko text-xl tracking-wider text-black bg-yellow-500 py-1 px-4 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
+
+interface ErrorDisplayProps {
+    message?: string;
+    action: ErrorAction;
+    retryAfterSeconds?: number;
+    onRetry?: () => void;
+    onChangeOutfit?: () => void;
+    onOpenSettings?: () => void;
+    onDismiss?: () => void;
+}
+
+const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ message, action, retryAfterSeconds, onRetry, onChangeOutfit, onOpenSettings, onDismiss }) => {
+    const [secondsLeft, setSecondsLeft] = useState(action === 'wait' ? Math.ceil(retryAfterSeconds ?? 0) : 0);
+
+    useEffect(() => {
+        if (secondsLeft <= 0) return;
+        const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [secondsLeft]);
+
+    const handleClick = (e: React.MouseEvent, callback?: () => void) => {
+        e.stopPropagation(); // Prevent drag from starting on click
+        callback?.();
+    };
+
+    let button: React.ReactNode = null;
+    if (action === 'change-outfit' && onChangeOutfit) {
+        button = <button onClick={(e) => handleClick(e, onChangeOutfit)} className={errorButtonClasses}>Try a Different Outfit</button>;
+    } else if (action === 'open-settings') {
+        // Retrying with the same key fails the same way
+        if (onOpenSettings) {
+            button = <button onClick={(e) => handleClick(e, onOpenSettings)} className={errorButtonClasses}>Open Settings</button>;
+        }
+    } else if (onRetry) {
+        button = (
+            <button onClick={(e) => handleClick(e, onRetry)} className={errorButtonClasses} disabled={secondsLeft > 0}>
+                {secondsLeft > 0 ? `Try Again in ${secondsLeft}s` : 'Try Again'}
+            </button>
+        );
+    }
+
+    return (
+        <div className="flex flex-col items-center justify-center h-full gap-3 p-4 text-center" role="alert">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-500 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {message && <p className="text-sm text-neutral-300">{message}</p>}
+            {button}
+            {onDismiss && (
+                <button onClick={(e) => handleClick(e, onDismiss)} className="text-sm text-yellow-500 hover:text-yellow-400 underline">
+                    Back to Earlier Takes
+                </button>
+            )}
+        </div>
+    );
+};
+
+interface CardCaptionProps {
+    title: string;
+    subtitle?: string | null;
+    customTitle?: string;
+    onSave?: (title: string) => void;
+}
+
+const CardCaption: React.FC<CardCaptionProps> = ({ title, subtitle, customTitle, onSave }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+
+    // Keep clicks and drags on the caption from moving the card
+    const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+    const commit = () => {
+        if (draft === null) return;
+        onSave?.(draft.trim());
+        setDraft(null);
+    };
+
+    return (
+        <>
+            {draft !== null ? (
+                <input
+                    type="text"
+                    autoFocus
+                    value={draft}
+                    maxLength={40}
+                    placeholder="Gamer tag or caption"
+                    aria-label="Card title"
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commit();
+                        if (e.key === 'Escape') setDraft(null);
+                    }}
+                    onBlur={commit}
+                    onPointerDown={stopPropagation}
+                    onClick={stopPropagation}
+                    className="w-full bg-neutral-900 border border-yellow-500 text-center font-teko text-2xl tracking-wider text-neutral-100 px-2 focus:outline-none"
+                />
+            ) : onSave ? (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setDraft(customTitle ?? '');
+                    }}
+                    onPointerDown={stopPropagation}
+                    className="group/title w-full flex items-center justify-center gap-2 font-teko text-2xl sm:text-3xl tracking-wider text-neutral-300 hover:text-white"
+                    title="Edit title"
+                >
+                    <span className="truncate">{title}</span>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 shrink-0 opacity-0 group-hover/title:opacity-100 transition-opacity" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                        <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                    </svg>
+                </button>
+            ) : (
+                <p className="font-teko text-2xl sm:text-3xl tracking-wider text-neutral-300 truncate">
+                    {title}
+                </p>
+            )}
+            {subtitle && <p className="text-xs text-neutral-500 truncate" title={subtitle}>{subtitle}</p>}
+        </>
+    );
+};
 
 const Placeholder = () => (
     <div className="flex flex-col items-center justify-center h-full text-neutral-600 group-hover:text-neutral-400 transition-colors duration-300 p-4 text-center">
@@ -48,23 +199,31 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, onShare, isMobile }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, variants = [], keptVariantId, caption, title, subtitle, customTitle, onTitleChange, status, error, errorAction, retryAfterSeconds, pendingLabel, dragConstraintsRef, onShake, onChangeOutfit, onOpenSettings, onDownload, onShare, onCancel, onKeepVariant, onCompare, onDismissError, isMobile }) => {
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
+    const [viewedIndex, setViewedIndex] = useState(0);
     const lastShakeTime = useRef(0);
     const lastVelocity = useRef({ x: 0, y: 0 });
 
-    // Reset states when the image URL changes or status goes to pending.
+    const latestUrl: string | undefined = variants[variants.length - 1]?.url ?? imageUrl;
+    const viewedVariant: CardVariant | undefined = variants[Math.min(viewedIndex, variants.length - 1)];
+    const displayedUrl: string | undefined = viewedVariant?.url ?? imageUrl;
+    const displayedTier: PromptTier | undefined = viewedVariant?.promptTier;
+
+    // Reset states when a new image arrives or status goes to pending. Browsing
+    // earlier takes swaps the image without replaying the developing animation.
     useEffect(() => {
         if (status === 'pending') {
             setIsDeveloped(false);
             setIsImageLoaded(false);
         }
-        if (status === 'done' && imageUrl) {
+        if (status === 'done' && latestUrl) {
             setIsDeveloped(false);
             setIsImageLoaded(false);
+            setViewedIndex(Math.max(0, variants.length - 1));
         }
-    }, [imageUrl, status]);
+    }, [latestUrl, status]);
 
     // When the image is loaded, start the developing animation.
     useEffect(() => {
@@ -108,9 +267,35 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
     const cardInnerContent = (
         <>
             <div className="w-full bg-black shadow-inner flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay />}
-                {status === 'done' && imageUrl && (
+                {status === 'pending' && <LoadingSpinner label={pendingLabel} />}
+                {status === 'pending' && onCancel && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onCancel(caption);
+                        }}
+                        className="absolute top-2 right-2 z-20 p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                        aria-label={`Cancel image for ${caption}`}
+                        title="Cancel"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                )}
+                {status === 'error' && (
+                    <ErrorDisplay
+                        key={error}
+                        message={error}
+                        action={errorAction ?? 'retry'}
+                        retryAfterSeconds={retryAfterSeconds}
+                        onRetry={onShake && (() => onShake(caption))}
+                        onChangeOutfit={onChangeOutfit && (() => onChangeOutfit(caption))}
+                        onOpenSettings={onOpenSettings}
+                        onDismiss={variants.length > 0 && onDismissError ? () => onDismissError(caption) : undefined}
+                    />
+                )}
+                {status === 'done' && displayedUrl && (
                     <>
                         <div className={cn(
                             "absolute top-2 right-2 z-20 flex flex-col gap-2 transition-opacity duration-300",
@@ -158,8 +343,74 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                     </svg>
                                 </button>
                             )}
+                            {onCompare && variants.length > 1 && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onCompare(caption);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Compare every take of ${caption}`}
+                                    title="Compare takes"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                                    </svg>
+                                </button>
+                            )}
                         </div>
 
+                        {variants.length > 1 && viewedVariant && (
+                            <div className="absolute bottom-2 left-2 right-2 z-20 flex items-center justify-between gap-2">
+                                <div className="flex items-center bg-black/60 text-white">
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setViewedIndex(Math.max(0, viewedIndex - 1));
+                                        }}
+                                        disabled={viewedIndex === 0}
+                                        className="px-2 py-1 hover:text-yellow-400 disabled:text-neutral-600"
+                                        aria-label="Previous take"
+                                    >
+                                        &#8249;
+                                    </button>
+                                    <span className="font-teko text-lg tracking-wider">{viewedIndex + 1} / {variants.length}</span>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setViewedIndex(Math.min(variants.length - 1, viewedIndex + 1));
+                                        }}
+                                        disabled={viewedIndex === variants.length - 1}
+                                        className="px-2 py-1 hover:text-yellow-400 disabled:text-neutral-600"
+                                        aria-label="Next take"
+                                    >
+                                        &#8250;
+                                    </button>
+                                </div>
+                                {onKeepVariant && (viewedVariant.id === keptVariantId ? (
+                                    <span className="bg-yellow-500 px-2 font-teko text-lg tracking-wider text-black">Kept</span>
+                                ) : (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onKeepVariant(caption, viewedVariant.id);
+                                        }}
+                                        className="bg-black/60 px-2 font-teko text-lg tracking-wider text-white hover:bg-yellow-500 hover:text-black"
+                                    >
+                                        Keep This One
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {displayedTier && FALLBACK_TIER_LABELS[displayedTier] && (
+                            <span
+                                className="absolute top-2 left-2 z-20 bg-black/60 px-2 font-teko text-lg tracking-wider text-neutral-300"
+                                title="The full scene was refused, so a simpler prompt was used."
+                            >
+                                {FALLBACK_TIER_LABELS[displayedTier]}
+                            </span>
+                        )}
 
                         {/* Digital render overlay - fades out */}
                         <div
@@ -171,9 +422,9 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                         
                         {/* The Image - fades in and sharpens */}
                         <img
-                            key={imageUrl}
-                            src={imageUrl}
-                            alt={caption}
+                            key={displayedUrl}
+                            src={displayedUrl}
+                            alt={title ?? caption}
                             onLoad={() => setIsImageLoaded(true)}
                             className={`w-full h-full object-cover transition-all duration-[2000ms] ease-in-out ${
                                 isDeveloped 
@@ -184,12 +435,15 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                         />
                     </>
                 )}
-                {status === 'done' && !imageUrl && <Placeholder />}
+                {status === 'done' && !displayedUrl && <Placeholder />}
             </div>
-            <div className="absolute bottom-4 left-4 right-4 text-center px-2">
-                <p className="font-teko text-2xl sm:text-3xl tracking-wider text-neutral-300 truncate">
-                    {caption}
-                </p>
+            <div className="absolute bottom-3 left-4 right-4 text-center px-2">
+                <CardCaption
+                    title={title ?? caption}
+                    subtitle={subtitle}
+                    customTitle={customTitle}
+                    onSave={onTitleChange && ((newTitle: string) => onTitleChange(caption, newTitle))}
+                />
             </div>
         </>
     );
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent } from 'react';
+import { cn } from '../lib/utils';
+import { getRosterMemberName } from '../lib/rosterExport';
+import type { RosterLoadoutMode, RosterMember } from '../types';
+
+interface RosterBuilderProps {
+    members: RosterMember[];
+    loadoutMode: RosterLoadoutMode;
+    maxSize: number;
+    /** Cards each member gets. */
+    cardsPerMember: number;
+    onAddPhotos: (files: File[]) => void;
+    onUseCamera: () => void;
+    onNameChange: (index: number, name: string) => void;
+    onRemoveMember: (index: number) => void;
+    onLoadoutModeChange: (mode: RosterLoadoutMode) => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+    /** The shared loadout editor, shown when everyone gets the same loadout. */
+    children?: React.ReactNode;
+}
+
+const LOADOUT_MODE_LABELS: Record<RosterLoadoutMode, string> = {
+    shared: 'Same Loadout for Everyone',
+    random: 'Random Loadout per Player',
+};
+
+const inputClasses = "w-full bg-neutral-900 border border-neutral-700 text-neutral-200 text-sm px-2 py-1 focus:outline-none focus:border-yellow-500";
+const primaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-black bg-yellow-500 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
+const secondaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+const smallButtonClasses = "font-teko text-lg tracking-wider text-white bg-transparent border-2 border-neutral-500 py-1 px-4 hover:bg-neutral-400 hover:text-black";
+
+const RosterBuilder: React.FC<RosterBuilderProps> = ({ members, loadoutMode, maxSize, cardsPerMember, onAddPhotos, onUseCamera, onNameChange, onRemoveMember, onLoadoutModeChange, onConfirm, onCancel, children }) => {
+    const canAddMore = members.length < maxSize;
+
+    const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []) as File[];
+        e.target.value = ''; // Allow the same file to be picked again
+        if (files.length > 0) onAddPhotos(files);
+    };
+
+    return (
+        <div className="w-full max-w-5xl flex flex-col items-center">
+            <div className="text-center mb-6">
+                <h2 className="font-teko text-4xl sm:text-5xl text-yellow-500 tracking-wider">Build Your Roster</h2>
+                <p className="text-neutral-400 mt-1">
+                    Add up to {maxSize} players and name them if you like. Everyone gets {cardsPerMember} cards, exported together as a ZIP.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3 w-full">
+                {members.map((member, index) => (
+                    <div key={member.id} className="bg-zinc-800 border-2 border-zinc-700/50 p-2 flex flex-col gap-2">
+                        <div className="relative aspect-square bg-black overflow-hidden">
+                            <img src={member.photo} alt={getRosterMemberName(member, index)} className="w-full h-full object-cover" />
+                            <button
+                                onClick={() => onRemoveMember(index)}
+                                className="absolute top-1 right-1 p-1.5 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                aria-label={`Remove ${getRosterMemberName(member, index)}`}
+                                title="Remove"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                            </button>
+                        </div>
+                        <input
+                            type="text"
+                            className={inputClasses}
+                            value={member.name}
+                            placeholder={member.fileName || `Player ${index + 1}`}
+                            onChange={(e) => onNameChange(index, e.target.value)}
+                            aria-label={`Name for player ${index + 1}`}
+                            maxLength={40}
+                        />
+                    </div>
+                ))}
+
+                {canAddMore && (
+                    <div className="border-2 border-dashed border-zinc-700 p-2 flex flex-col items-center justify-center gap-2 min-h-[10rem] text-center">
+                        <span className="font-teko text-xl tracking-wider text-neutral-500">Add Players</span>
+                        <input type="file" id="roster-file-upload" className="hidden" multiple onChange={handleFileChange} accept="image/jpeg,image/png,image/webp,image/gif,image/bmp,image/avif" />
+                        <label htmlFor="roster-file-upload" className={cn(smallButtonClasses, 'cursor-pointer')}>Upload Photos</label>
+                        <button onClick={onUseCamera} className={smallButtonClasses}>Use Camera</button>
+                    </div>
+                )}
+            </div>
+
+            <div className="mt-6 flex border-2 border-neutral-700" role="group" aria-label="Loadout">
+                {(Object.keys(LOADOUT_MODE_LABELS) as RosterLoadoutMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => onLoadoutModeChange(mode)}
+                        aria-pressed={loadoutMode === mode}
+                        className={cn(
+                            "font-teko text-lg sm:text-xl tracking-wider px-4 py-1 transition-colors",
+                            loadoutMode === mode ? 'bg-yellow-500 text-black' : 'text-neutral-400 hover:text-white',
+                        )}
+                    >
+                        {LOADOUT_MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
+
+            {loadoutMode === 'shared' && children && <div className="mt-6 w-full flex justify-center">{children}</div>}
+
+            <div className="mt-6 sm:mt-8 mb-4 flex flex-col sm:flex-row items-center gap-4">
+                <button onClick={onConfirm} className={primaryButtonClasses} disabled={members.length === 0}>
+                    {members.length === 0 ? 'Add Some Players' : `Generate ${members.length * cardsPerMember} Cards`}
+                </button>
+                <button onClick={onCancel} className={secondaryButtonClasses}>
+                    Return to Lobby
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RosterBuilder;
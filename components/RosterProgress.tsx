@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import { getRosterMemberName } from '../lib/rosterExport';
+import type { GeneratedImage, RosterMember } from '../types';
+
+interface RosterProgressProps {
+    members: RosterMember[];
+    /** Each member's cards by outfit, keyed by member ID. */
+    images: Record<string, Record<string, GeneratedImage>>;
+    isRunning: boolean;
+    /** Set while the API's rate limit holds the queue back. */
+    isPaused: boolean;
+    /** How many members' folders are ready, while the ZIP is being built. */
+    exportProgress: { done: number; total: number } | null;
+    onCancel: () => void;
+    onRetryFailed: () => void;
+    onDownloadZip: () => void;
+    onCustomizeCard: () => void;
+    onReset: () => void;
+}
+
+const primaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-black bg-yellow-500 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
+const secondaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+
+const RosterProgress: React.FC<RosterProgressProps> = ({ members, images, isRunning, isPaused, exportProgress, onCancel, onRetryFailed, onDownloadZip, onCustomizeCard, onReset }) => {
+    const cards = members.flatMap(member => member.items.map(item => images[member.id]?.[item.character]));
+    const doneCount = cards.filter(card => card?.status === 'done').length;
+    const failedCount = cards.filter(card => card?.status === 'error').length;
+    const percent = cards.length > 0 ? Math.round(((doneCount + failedCount) / cards.length) * 100) : 0;
+
+    return (
+        <div className="w-full max-w-5xl flex flex-col items-center">
+            <div className="text-center mb-4">
+                <h2 className="font-teko text-4xl sm:text-5xl text-yellow-500 tracking-wider">
+                    {isRunning ? 'Generating Your Roster...' : 'Roster Ready'}
+                </h2>
+                <p className="text-neutral-400 mt-1">
+                    {doneCount} of {cards.length} cards done{failedCount > 0 ? `, ${failedCount} failed` : ''}.
+                    {isRunning && (isPaused ? " We hit the API's rate limit, so the batch will continue in a moment." : ' This can take a while for a big roster.')}
+                </p>
+            </div>
+
+            <div
+                className="w-full max-w-2xl h-3 bg-zinc-800 border border-zinc-700"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+            >
+                <div className="h-full bg-yellow-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+            </div>
+
+            <div className="mt-6 w-full max-h-[50vh] overflow-y-auto divide-y divide-zinc-800 border-2 border-zinc-700/50 bg-zinc-900/80">
+                {members.map((member, index) => {
+                    const memberCards = member.items.map(item => ({ item, card: images[member.id]?.[item.character] }));
+                    const memberDone = memberCards.filter(({ card }) => card?.status === 'done').length;
+                    return (
+                        <div key={member.id} className="flex items-center gap-3 p-2">
+                            <img src={member.photo} alt="" className="w-12 h-12 object-cover flex-shrink-0" />
+                            <div className="w-32 sm:w-48 min-w-0">
+                                <p className="font-teko text-xl tracking-wider text-neutral-200 truncate">{getRosterMemberName(member, index)}</p>
+                                <p className="text-xs text-neutral-500">{memberDone} / {memberCards.length}</p>
+                            </div>
+                            <div className="flex gap-2 overflow-x-auto">
+                                {memberCards.map(({ item, card }) => {
+                                    const url = card?.variants?.find(variant => variant.id === card.keptVariantId)?.url;
+                                    return (
+                                        <div
+                                            key={item.character}
+                                            className={cn(
+                                                "w-10 h-12 flex-shrink-0 bg-black border",
+                                                card?.status === 'error' ? 'border-red-500' : 'border-zinc-700',
+                                                (!card || card.status === 'pending') && 'animate-pulse bg-zinc-700',
+                                            )}
+                                            title={card?.status === 'error' ? `${item.character}: ${card.error}` : item.character}
+                                        >
+                                            {url && <img src={url} alt={item.character} className="w-full h-full object-cover" />}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="mt-6 mb-4 flex flex-col sm:flex-row items-center gap-4">
+                {isRunning ? (
+                    <button onClick={onCancel} className={secondaryButtonClasses}>
+                        Cancel
+                    </button>
+                ) : (
+                    <>
+                        <button onClick={onDownloadZip} className={primaryButtonClasses} disabled={doneCount === 0 || exportProgress !== null}>
+                            {exportProgress ? `Packing ${exportProgress.done} / ${exportProgress.total}...` : 'Download ZIP'}
+                        </button>
+                        <button onClick={onCustomizeCard} className={secondaryButtonClasses} disabled={exportProgress !== null}>
+                            Card Frame
+                        </button>
+                        {failedCount > 0 && (
+                            <button onClick={onRetryFailed} className={secondaryButtonClasses} disabled={exportProgress !== null}>
+                                Retry {failedCount} Failed
+                            </button>
+                        )}
+                        <button onClick={onReset} className={secondaryButtonClasses}>
+                            Start Over
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RosterProgress;
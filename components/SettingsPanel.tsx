@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { getStoredApiKey, saveApiKey, clearApiKey } from '../services/apiKeyStore';
+import { validateGeminiApiKey } from '../services/geminiProvider';
+import { usesBrowserApiKey } from '../services/imageProvider';
+import CacheInspector from './CacheInspector';
+
+interface SettingsPanelProps {
+    isOpen: boolean;
+    isKeyRequired: boolean;
+    onClose: () => void;
+    onKeyChange: () => void;
+}
+
+type ValidationStatus = 'idle' | 'validating' | 'valid' | 'invalid';
+
+const primaryButtonClasses = "font-teko text-xl tracking-wider text-black bg-yellow-500 py-2 px-6 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
+const secondaryButtonClasses = "font-teko text-xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-2 px-6 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, isKeyRequired, onClose, onKeyChange }) => {
+    const [apiKey, setApiKey] = useState('');
+    const [rememberKey, setRememberKey] = useState(true);
+    const [showKey, setShowKey] = useState(false);
+    const [hasStoredKey, setHasStoredKey] = useState(false);
+    const [status, setStatus] = useState<ValidationStatus>('idle');
+    const [message, setMessage] = useState('');
+    // Only a browser-side Gemini deployment uses a saved key; the proxy and stub ignore it
+    const acceptsKey = usesBrowserApiKey();
+
+    // Load the current key each time the panel opens.
+    useEffect(() => {
+        if (!isOpen) return;
+        const stored = getStoredApiKey();
+        setApiKey(stored?.key ?? '');
+        setRememberKey(stored ? stored.persistence === 'local' : true);
+        setHasStoredKey(!!stored);
+        setShowKey(false);
+        setStatus('idle');
+        setMessage('');
+    }, [isOpen]);
+
+    const handleSave = async () => {
+        const trimmedKey = apiKey.trim();
+        if (!trimmedKey) {
+            setStatus('invalid');
+            setMessage('Paste your Gemini API key first.');
+            return;
+        }
+
+        setStatus('validating');
+        setMessage('Checking your key with Google...');
+        try {
+            await validateGeminiApiKey(trimmedKey);
+            saveApiKey(trimmedKey, rememberKey ? 'local' : 'session');
+            setHasStoredKey(true);
+            setStatus('valid');
+            setMessage(rememberKey ? 'Key verified and saved on this device.' : 'Key verified. It will be forgotten when you close this tab.');
+            onKeyChange();
+        } catch (error) {
+            console.error("API key validation failed:", error);
+            const details = error instanceof Error ? error.message : String(error);
+            setStatus('invalid');
+            setMessage(/API_KEY_INVALID|API key not valid/i.test(details)
+                ? "Google didn't accept this key. Double-check that you copied all of it."
+                : `Couldn't verify the key: ${details}`);
+        }
+    };
+
+    const handleRemove = () => {
+        clearApiKey();
+        setApiKey('');
+        setHasStoredKey(false);
+        setStatus('idle');
+        setMessage('Key removed from this browser.');
+        onKeyChange();
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby="settings-title"
+                        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-zinc-900 border-2 border-zinc-700/50 p-6 shadow-lg shadow-yellow-500/10"
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <h2 id="settings-title" className="font-teko text-4xl text-yellow-500 tracking-wider">Settings</h2>
+
+                        {acceptsKey ? (
+                            <>
+                                <p className="text-neutral-300 text-sm mt-2">
+                                    {isKeyRequired
+                                        ? 'A Gemini API key is required to generate your loadout.'
+                                        : 'Use your own Gemini API key; calls go straight from this browser to Google.'}
+                                    {' '}Get one for free from{' '}
+                                    <a
+                                        href="https://aistudio.google.com/apikey"
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-yellow-500 hover:text-yellow-400 underline"
+                                    >
+                                        Google AI Studio
+                                    </a>
+                                    . Your key stays in this browser and is only sent to Google.
+                                </p>
+
+                                <label htmlFor="settings-api-key" className="block font-teko text-xl tracking-wider text-neutral-400 mt-5 mb-1">Gemini API Key</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        id="settings-api-key"
+                                        type={showKey ? 'text' : 'password'}
+                                        autoComplete="off"
+                                        spellCheck={false}
+                                        value={apiKey}
+                                        onChange={(e) => {
+                                            setApiKey(e.target.value);
+                                            setStatus('idle');
+                                            setMessage('');
+                                        }}
+                                        placeholder="AIza..."
+                                        className="flex-1 bg-neutral-950 border border-neutral-700 text-neutral-200 text-sm px-3 py-2 focus:outline-none focus:border-yellow-500"
+                                    />
+                                    <button
+                                        onClick={() => setShowKey(prev => !prev)}
+                                        className="px-3 text-sm text-neutral-400 border border-neutral-700 hover:text-white hover:border-neutral-400"
+                                        aria-label={showKey ? 'Hide API key' : 'Show API key'}
+                                    >
+                                        {showKey ? 'Hide' : 'Show'}
+                                    </button>
+                                </div>
+
+                                <label className="flex items-center gap-2 mt-3 text-sm text-neutral-300 cursor-pointer select-none">
+                                    <input
+                                        type="checkbox"
+                                        checked={rememberKey}
+                                        onChange={(e) => setRememberKey(e.target.checked)}
+                                        className="accent-yellow-500"
+                                    />
+                                    Remember on this device (uncheck to keep it for this session only)
+                                </label>
+
+                                {message && (
+                                    <p className={`text-sm mt-3 ${status === 'invalid' ? 'text-red-400' : status === 'valid' ? 'text-green-400' : 'text-neutral-400'}`} role="status">
+                                        {message}
+                                    </p>
+                                )}
+
+                                <div className="mt-6 flex flex-wrap items-center gap-3">
+                                    <button onClick={handleSave} className={primaryButtonClasses} disabled={status === 'validating'}>
+                                        {status === 'validating' ? 'Checking...' : 'Test & Save'}
+                                    </button>
+                                    {hasStoredKey && (
+                                        <button onClick={handleRemove} className={secondaryButtonClasses} disabled={status === 'validating'}>
+                                            Remove Key
+                                        </button>
+                                    )}
+                                    <button onClick={onClose} className={`${secondaryButtonClasses} sm:ml-auto`}>
+                                        Close
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-neutral-300 text-sm mt-2">
+                                    This lobby doesn't call Gemini from your browser, so there's no API key to set here.
+                                </p>
+                                <div className="mt-6 flex justify-end">
+                                    <button onClick={onClose} className={secondaryButtonClasses}>
+                                        Close
+                                    </button>
+                                </div>
+                            </>
+                        )}
+
+                        <CacheInspector isOpen={isOpen} />
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default SettingsPanel;
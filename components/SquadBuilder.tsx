@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import type { GenerationItem, SquadMember } from '../types';
+
+interface SquadBuilderProps {
+    members: SquadMember[];
+    /** Each member's solo card, in the same order as `members`. */
+    items: GenerationItem[];
+    outfits: string[];
+    maps: string[];
+    scenarios: string[];
+    minSize: number;
+    maxSize: number;
+    onAddPhotos: (files: File[]) => void;
+    onUseCamera: () => void;
+    onRemoveMember: (index: number) => void;
+    onOutfitChange: (index: number, outfit: string) => void;
+    /** The whole squad drops into the same scene. */
+    onSceneChange: (map: string, scenario: string) => void;
+    onRandomize: () => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const selectClasses = "w-full bg-neutral-900 border border-neutral-700 text-neutral-200 text-sm px-2 py-2 focus:outline-none focus:border-yellow-500";
+const labelClasses = "block font-teko text-lg tracking-wider text-neutral-400 mb-1";
+const primaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-black bg-yellow-500 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-yellow-400 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none";
+const secondaryButtonClasses = "font-teko text-xl sm:text-2xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-3 px-8 sm:px-10 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+const smallButtonClasses = "font-teko text-lg tracking-wider text-white bg-transparent border-2 border-neutral-500 py-1 px-4 hover:bg-neutral-400 hover:text-black";
+
+const SquadBuilder: React.FC<SquadBuilderProps> = ({ members, items, outfits, maps, scenarios, minSize, maxSize, onAddPhotos, onUseCamera, onRemoveMember, onOutfitChange, onSceneChange, onRandomize, onConfirm, onCancel }) => {
+    const scene = items[0];
+    const canAddMore = members.length < maxSize;
+
+    const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []) as File[];
+        e.target.value = ''; // Allow the same file to be picked again
+        if (files.length > 0) onAddPhotos(files);
+    };
+
+    return (
+        <div className="w-full max-w-5xl flex flex-col items-center">
+            <div className="text-center mb-6">
+                <h2 className="font-teko text-4xl sm:text-5xl text-yellow-500 tracking-wider">Assemble Your Squad</h2>
+                <p className="text-neutral-400 mt-1">
+                    Add {minSize} to {maxSize} teammates and pick an outfit for each. You'll get a squad shot plus a solo card for everyone.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full">
+                {members.map((member, index) => {
+                    const item = items[index];
+                    const takenOutfits = items.filter((_, i) => i !== index).map(other => other.character);
+                    return (
+                        <motion.div
+                            key={member.id}
+                            className="bg-zinc-800 border-2 border-zinc-700/50 p-3 shadow-lg shadow-yellow-500/10 flex flex-col gap-3"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ duration: 0.3 }}
+                        >
+                            <div className="relative aspect-[3/4] bg-black overflow-hidden">
+                                <img src={member.photo} alt={`Teammate ${index + 1}`} className="w-full h-full object-cover" />
+                                <button
+                                    onClick={() => onRemoveMember(index)}
+                                    className="absolute top-2 right-2 p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Remove teammate ${index + 1}`}
+                                    title="Remove"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                </button>
+                                <span className="absolute bottom-0 inset-x-0 bg-black/60 px-2 font-teko text-xl tracking-wider text-neutral-200">
+                                    Teammate {index + 1}
+                                </span>
+                            </div>
+                            {item && (
+                                <div>
+                                    <label htmlFor={`squad-outfit-${index}`} className={labelClasses}>Outfit</label>
+                                    <select
+                                        id={`squad-outfit-${index}`}
+                                        className={selectClasses}
+                                        value={item.character}
+                                        onChange={(e) => onOutfitChange(index, e.target.value)}
+                                    >
+                                        {outfits.map(outfit => (
+                                            <option key={outfit} value={outfit} disabled={takenOutfits.includes(outfit)}>
+                                                {outfit}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                        </motion.div>
+                    );
+                })}
+
+                {canAddMore && (
+                    <div className="border-2 border-dashed border-zinc-700 p-3 flex flex-col items-center justify-center gap-3 min-h-[12rem] text-center">
+                        <span className="font-teko text-2xl tracking-wider text-neutral-500">Add a Teammate</span>
+                        <input type="file" id="squad-file-upload" className="hidden" multiple onChange={handleFileChange} accept="image/jpeg,image/png,image/webp,image/gif,image/bmp,image/avif" />
+                        <label htmlFor="squad-file-upload" className={cn(smallButtonClasses, 'cursor-pointer')}>Upload Photos</label>
+                        <button onClick={onUseCamera} className={smallButtonClasses}>Use Camera</button>
+                    </div>
+                )}
+            </div>
+
+            {scene && (
+                <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4 w-full max-w-2xl">
+                    <div>
+                        <label htmlFor="squad-map" className={labelClasses}>Map</label>
+                        <select
+                            id="squad-map"
+                            className={selectClasses}
+                            value={scene.map}
+                            onChange={(e) => onSceneChange(e.target.value, scene.scenario)}
+                        >
+                            {maps.map(map => (
+                                <option key={map} value={map}>{map}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="squad-scenario" className={labelClasses}>Scenario</label>
+                        <select
+                            id="squad-scenario"
+                            className={cn(selectClasses, 'capitalize')}
+                            value={scene.scenario}
+                            onChange={(e) => onSceneChange(scene.map, e.target.value)}
+                        >
+                            {scenarios.map(scenario => (
+                                <option key={scenario} value={scenario}>{scenario}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-6 sm:mt-8 mb-4 flex flex-col sm:flex-row items-center gap-4">
+                <button onClick={onConfirm} className={primaryButtonClasses} disabled={members.length < minSize}>
+                    {members.length < minSize ? `Add ${minSize - members.length} More` : 'Drop In'}
+                </button>
+                <button onClick={onRandomize} className={secondaryButtonClasses} disabled={members.length === 0}>
+                    Randomize All
+                </button>
+                <button onClick={onCancel} className={secondaryButtonClasses}>
+                    Return to Lobby
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SquadBuilder;
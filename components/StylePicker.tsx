@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { OutfitStylePreference, StylePreferences, SubjectDescription } from '../types';
+
+interface StylePickerProps {
+    preferences: StylePreferences;
+    /** What was suggested from the photo, if the user opted in to suggestions. */
+    suggestion: StylePreferences | null;
+    onChange: (preferences: StylePreferences) => void;
+}
+
+const OUTFIT_STYLE_LABELS: Record<OutfitStylePreference, string> = {
+    'masculine': 'Masculine',
+    'feminine': 'Feminine',
+    'neutral': 'Neutral',
+    'mixed': 'Mixed (everything)',
+};
+
+const DESCRIPTION_LABELS: Record<SubjectDescription, string> = {
+    'male': 'A man',
+    'female': 'A woman',
+    'person': 'A person',
+};
+
+const selectClasses = "bg-neutral-900 border border-neutral-700 text-neutral-200 text-sm px-2 py-1 focus:outline-none focus:border-yellow-500";
+const labelClasses = "flex items-center gap-2 font-teko text-lg tracking-wider text-neutral-400";
+
+const StylePicker: React.FC<StylePickerProps> = ({ preferences, suggestion, onChange }) => {
+    const isUsingSuggestion = suggestion !== null
+        && suggestion.outfitStyle === preferences.outfitStyle
+        && suggestion.description === preferences.description;
+
+    return (
+        <div className="w-full max-w-3xl mb-6 flex flex-col items-center gap-2">
+            <div className="flex flex-wrap items-center justify-center gap-x-5 gap-y-2">
+                <label className={labelClasses}>
+                    Outfit Style
+                    <select
+                        className={selectClasses}
+                        value={preferences.outfitStyle}
+                        onChange={(e) => onChange({ ...preferences, outfitStyle: e.target.value as OutfitStylePreference })}
+                    >
+                        {(Object.keys(OUTFIT_STYLE_LABELS) as OutfitStylePreference[]).map(style => (
+                            <option key={style} value={style}>{OUTFIT_STYLE_LABELS[style]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className={labelClasses}>
+                    Describe Me As
+                    <select
+                        className={selectClasses}
+                        value={preferences.description}
+                        onChange={(e) => onChange({ ...preferences, description: e.target.value as SubjectDescription })}
+                    >
+                        {(Object.keys(DESCRIPTION_LABELS) as SubjectDescription[]).map(description => (
+                            <option key={description} value={description}>{DESCRIPTION_LABELS[description]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            {suggestion && (
+                <p className="text-xs text-neutral-500 text-center">
+                    {isUsingSuggestion
+                        ? "Using the suggestion from your photo. Change it if it doesn't fit you."
+                        : <>
+                            Your photo suggested {OUTFIT_STYLE_LABELS[suggestion.outfitStyle].toLowerCase()} outfits, described as {DESCRIPTION_LABELS[suggestion.description].toLowerCase()}.{' '}
+                            <button onClick={() => onChange(suggestion)} className="text-yellow-500 hover:text-yellow-400 underline">Use suggestion</button>
+                        </>}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default StylePicker;
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { CardVariant } from '../types';
+import { cn } from '../lib/utils';
+
+interface VariantCompareProps {
+    isOpen: boolean;
+    /** The outfit whose takes are shown. */
+    caption: string;
+    variants: CardVariant[];
+    keptVariantId?: string;
+    onKeep: (variantId: string) => void;
+    onClose: () => void;
+}
+
+const secondaryButtonClasses = "font-teko text-xl tracking-wider text-white bg-transparent border-2 border-neutral-400 py-1 px-5 transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-400 hover:text-black";
+
+const VariantCompare: React.FC<VariantCompareProps> = ({ isOpen, caption, variants, keptVariantId, onKeep, onClose }) => {
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby="compare-title"
+                        className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-zinc-900 border-2 border-zinc-700/50 p-6 shadow-lg shadow-yellow-500/10"
+                        initial={{ scale: 0.95, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                            <div>
+                                <h2 id="compare-title" className="font-teko text-4xl text-yellow-500 tracking-wider">{caption}</h2>
+                                <p className="text-sm text-neutral-400">Pick the take to use in the album and downloads.</p>
+                            </div>
+                            <button onClick={onClose} className={secondaryButtonClasses}>Close</button>
+                        </div>
+
+                        <div className="mt-4 overflow-y-auto grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {variants.map((variant, index) => {
+                                const isKept = variant.id === keptVariantId;
+                                return (
+                                    <button
+                                        key={variant.id}
+                                        onClick={() => onKeep(variant.id)}
+                                        className={cn(
+                                            "relative aspect-[3/4] bg-black border-2 overflow-hidden transition-colors",
+                                            isKept ? "border-yellow-500" : "border-zinc-700/50 hover:border-neutral-400",
+                                        )}
+                                        aria-pressed={isKept}
+                                        aria-label={`Keep take ${index + 1}`}
+                                    >
+                                        <img src={variant.url} alt={`${caption}, take ${index + 1}`} className="w-full h-full object-cover" />
+                                        <span className={cn(
+                                            "absolute bottom-0 inset-x-0 px-2 font-teko text-lg tracking-wider",
+                                            isKept ? "bg-yellow-500 text-black" : "bg-black/60 text-neutral-300",
+                                        )}>
+                                            {isKept ? `Take ${index + 1} · Kept` : `Take ${index + 1}`}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default VariantCompare;
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useLobbySession } from './useLobbySession';
+import type { LobbySession } from './useLobbySession';
+
+interface Deferred {
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+const createDeferred = (): Deferred => {
+    let resolve!: () => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+};
+
+// Renders the hook with a loadout ready to generate
+const renderBuildingLobby = () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const hook = renderHook(() => useLobbySession());
+    act(() => {
+        hook.result.current.startSession();
+        hook.result.current.send({ type: 'LOADOUT_READY' });
+    });
+    return hook;
+};
+
+describe('useLobbySession', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('runGeneration', () => {
+        it('shows the results once every card has settled', async () => {
+            const { result } = renderBuildingLobby();
+            const cards = [createDeferred(), createDeferred()];
+            let run!: Promise<boolean>;
+            act(() => {
+                run = result.current.runGeneration(() => cards.map(card => card.promise));
+            });
+            expect(result.current.phase).toBe('generating');
+
+            await act(async () => cards[0].resolve());
+            expect(result.current.phase).toBe('generating');
+
+            await act(async () => {
+                cards[1].resolve();
+                await run;
+            });
+            expect(result.current.phase).toBe('results-shown');
+        });
+
+        it('leaves generating when a card rejects', async () => {
+            const { result } = renderBuildingLobby();
+            await act(async () => {
+                await result.current.runGeneration(() => [Promise.resolve(), Promise.reject(new Error('boom'))]);
+            });
+            expect(result.current.phase).toBe('results-shown');
+        });
+
+        it('leaves generating when starting the cards throws', async () => {
+            const { result } = renderBuildingLobby();
+            await act(async () => {
+                await expect(result.current.runGeneration(() => {
+                    throw new Error('boom');
+                })).rejects.toThrow('boom');
+            });
+            expect(result.current.phase).toBe('results-shown');
+        });
+
+        it("won't start a second batch while one is running", async () => {
+            const { result } = renderBuildingLobby();
+            const card = createDeferred();
+            const createTasks = vi.fn(() => [card.promise]);
+            let first!: Promise<boolean>;
+            act(() => {
+                first = result.current.runGeneration(createTasks);
+            });
+            await act(async () => {
+                expect(await result.current.runGeneration(createTasks)).toBe(false);
+            });
+            expect(createTasks).toHaveBeenCalledTimes(1);
+
+            await act(async () => {
+                card.resolve();
+                expect(await first).toBe(true);
+            });
+        });
+    });
+
+    describe('cancelAll', () => {
+        it('aborts the cards in flight but keeps the session', async () => {
+            const { result } = renderBuildingLobby();
+            const session = result.current.getSession()!;
+            const card = createDeferred();
+            let signal!: AbortSignal;
+            let run!: Promise<boolean>;
+            act(() => {
+                run = result.current.runGeneration(current => [
+                    result.current.runCard('Outfit', current, cardSignal => {
+                        signal = cardSignal;
+                        return card.promise;
+                    }),
+                ]);
+            });
+
+            act(() => result.current.cancelAll());
+            expect(signal.aborted).toBe(true);
+            expect(result.current.isCurrentSession(session.id)).toBe(true);
+            expect(result.current.getSession()!.controller.signal.aborted).toBe(false);
+
+            await act(async () => {
+                card.reject(signal.reason);
+                await run;
+            });
+            expect(result.current.phase).toBe('results-shown');
+        });
+
+        it('cancels one card without touching the others', () => {
+            const { result } = renderBuildingLobby();
+            const session = result.current.getSession()!;
+            const signals: Record<string, AbortSignal> = {};
+            const never = new Promise<void>(() => {});
+            act(() => {
+                result.current.runCard('A', session, signal => {
+                    signals.A = signal;
+                    return never;
+                });
+                result.current.runCard('B', session, signal => {
+                    signals.B = signal;
+                    return never;
+                });
+            });
+
+            act(() => result.current.cancelCard('A'));
+            expect(signals.A.aborted).toBe(true);
+            expect(signals.B.aborted).toBe(false);
+        });
+    });
+
+    describe('stale sessions', () => {
+        it('ignores a batch that finishes after a new session started', async () => {
+            const { result } = renderBuildingLobby();
+            const card = createDeferred();
+            let oldSession!: LobbySession;
+            let run!: Promise<boolean>;
+            act(() => {
+                run = result.current.runGeneration(session => {
+                    oldSession = session;
+                    return [card.promise];
+                });
+            });
+
+            let newSession!: LobbySession;
+            act(() => {
+                newSession = result.current.startSession();
+            });
+            expect(oldSession.controller.signal.aborted).toBe(true);
+            expect(result.current.isCurrentSession(oldSession.id)).toBe(false);
+            expect(result.current.isCurrentSession(newSession.id)).toBe(true);
+
+            await act(async () => {
+                card.resolve();
+                await run;
+            });
+            // The old batch doesn't get to finish the new session's generation
+            expect(result.current.phase).toBe('generating');
+        });
+
+        it('goes back to idle on reset and ignores the batch finishing late', async () => {
+            const { result } = renderBuildingLobby();
+            const card = createDeferred();
+            let session!: LobbySession;
+            let run!: Promise<boolean>;
+            act(() => {
+                run = result.current.runGeneration(current => {
+                    session = current;
+                    return [card.promise];
+                });
+            });
+
+            act(() => result.current.reset());
+            expect(result.current.phase).toBe('idle');
+            expect(session.controller.signal.aborted).toBe(true);
+            expect(result.current.getSession()).toBeNull();
+
+            await act(async () => {
+                card.resolve();
+                await run;
+            });
+            expect(result.current.phase).toBe('idle');
+            expect(console.warn).not.toHaveBeenCalled();
+        });
+    });
+});
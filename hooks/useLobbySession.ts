@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useReducer, useRef } from 'react';
+import { INITIAL_LOBBY_STATE, getNextPhase, lobbyReducer } from '../lib/lobbyMachine';
+import type { LobbyEvent, LobbyPhase, LobbyState } from '../lib/lobbyMachine';
+import { createRng, createSeed } from '../lib/random';
+import type { Rng } from '../lib/random';
+
+/** Async work started for a lobby session, so it can be cancelled and its late results ignored. */
+export interface LobbySession {
+    id: string;
+    controller: AbortController;
+    /** Seeds every loadout roll in the session. */
+    seed: number;
+}
+
+export interface LobbySessionControls {
+    phase: LobbyPhase;
+    /**
+     * Applies an event to the lobby's state machine.
+     * @returns False if the current phase doesn't accept the event, in which case nothing changes.
+     */
+    send: (event: LobbyEvent) => boolean;
+    /** Starts a new session, cancelling everything the previous one was still doing. */
+    startSession: () => LobbySession;
+    /** The session that async work belongs to, if any. */
+    getSession: () => LobbySession | null;
+    isCurrentSession: (sessionId: string) => boolean;
+    /** Draws the session's outfits, maps and scenarios; reseeded with every new session. */
+    getLoadoutRng: () => Rng;
+    /**
+     * Runs one card's work with its own abort signal, which is also aborted when the session's batch is.
+     * @param key Identifies the card, for `cancelCard`.
+     * @param session The session the card belongs to.
+     * @param work The card's work.
+     */
+    runCard: (key: string, session: LobbySession, work: (signal: AbortSignal) => Promise<void>) => Promise<void>;
+    /** Cancels one card if it's queued or generating. */
+    cancelCard: (key: string) => void;
+    /** Cancels every card in flight, keeping the session (and its finished cards) for later regenerations. */
+    cancelAll: () => void;
+    /**
+     * Moves to the generating phase and runs a batch of cards through the shared scheduler,
+     * moving on to the results once they have all settled.
+     * @param createTasks Starts the batch's cards for the given session.
+     * @returns False if a batch can't start from the current phase, e.g. one is already running.
+     */
+    runGeneration: (createTasks: (session: LobbySession) => Promise<unknown>[]) => Promise<boolean>;
+    /** Cancels the session and goes back to waiting for a photo. */
+    reset: () => void;
+}
+
+/**
+ * Runs the lobby's flow: its phase, the session that async work belongs to, and the batch runner.
+ * Transitions happen in the event handlers that cause them, never in effects, so React's
+ * StrictMode double-invocation can't start a batch twice.
+ * @returns The lobby's phase and the controls that drive it.
+ */
+export function useLobbySession(): LobbySessionControls {
+    const [state, dispatch] = useReducer(lobbyReducer, INITIAL_LOBBY_STATE);
+    // The accepted state, ahead of React's render, so events sent in the same tick see each other
+    const stateRef = useRef<LobbyState>(INITIAL_LOBBY_STATE);
+    const sessionRef = useRef<LobbySession | null>(null);
+    const cardControllers = useRef(new Map<string, AbortController>());
+    const loadoutRng = useRef<Rng>(createRng(createSeed()));
+
+    const send = (event: LobbyEvent): boolean => {
+        const current: LobbyState = stateRef.current;
+        const phase = getNextPhase(current.phase, event);
+        if (phase === null) {
+            console.warn(`Ignored ${event.type} while the lobby is ${current.phase}.`);
+            return false;
+        }
+        stateRef.current = lobbyReducer(current, event);
+        dispatch(event);
+        return true;
+    };
+
+    const startSession = (): LobbySession => {
+        sessionRef.current?.controller.abort();
+        const session: LobbySession = { id: crypto.randomUUID(), controller: new AbortController(), seed: createSeed() };
+        sessionRef.current = session;
+        loadoutRng.current = createRng(session.seed);
+        cardControllers.current.clear();
+        return session;
+    };
+
+    const getSession = (): LobbySession | null => sessionRef.current;
+
+    const isCurrentSession = (sessionId: string) => sessionRef.current?.id === sessionId;
+
+    const runCard = async (key: string, session: LobbySession, work: (signal: AbortSignal) => Promise<void>) => {
+        const controller = new AbortController();
+        session.controller.signal.addEventListener('abort', () => controller.abort(), { once: true });
+        cardControllers.current.set(key, controller);
+        try {
+            await work(controller.signal);
+        } finally {
+            // A newer take of the same card may have replaced this controller already
+            if (cardControllers.current.get(key) === controller) {
+                cardControllers.current.delete(key);
+            }
+        }
+    };
+
+    const cancelCard = (key: string) => {
+        cardControllers.current.get(key)?.abort();
+    };
+
+    const cancelAll = () => {
+        const session = sessionRef.current;
+        if (!session) return;
+        session.controller.abort();
+        sessionRef.current = { ...session, controller: new AbortController() };
+    };
+
+    const runGeneration = async (createTasks: (session: LobbySession) => Promise<unknown>[]): Promise<boolean> => {
+        if (!send({ type: 'GENERATE' })) return false;
+        const session = sessionRef.current ?? startSession();
+        try {
+            // The shared scheduler decides how many cards generate at once. Every card settles
+            // before the batch is done, and one that throws can't leave the lobby generating.
+            await Promise.allSettled(createTasks(session));
+        } finally {
+            if (isCurrentSession(session.id)) {
+                send({ type: 'GENERATION_DONE' });
+            }
+        }
+        return true;
+    };
+
+    const reset = () => {
+        sessionRef.current?.controller.abort();
+        sessionRef.current = null;
+        cardControllers.current.clear();
+        send({ type: 'RESET' });
+    };
+
+    return {
+        phase: state.phase,
+        send,
+        startSession,
+        getSession,
+        isCurrentSession,
+        getLoadoutRng: () => loadoutRng.current,
+        runCard,
+        cancelCard,
+        cancelAll,
+        runGeneration,
+        reset,
+    };
+}
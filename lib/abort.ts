@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Checks whether an error came from an aborted operation rather than a real failure.
+ * @param error The caught error.
+ * @returns True for `AbortError`s, whichever API threw them.
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error as { name?: unknown } | null)?.name === 'AbortError';
+}
+
+/**
+ * Creates the error thrown when an operation is cancelled, matching what `fetch` throws.
+ */
+export function createAbortError(): DOMException {
+    return new DOMException('The operation was cancelled.', 'AbortError');
+}
+
+/**
+ * Waits for the given time, stopping early if the signal is aborted.
+ * @param ms How long to wait, in milliseconds.
+ * @param signal Cancels the wait.
+ * @returns A promise that resolves after the delay, or rejects with an AbortError.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -2,156 +2,478 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+import { canvasToBlob, getImageStore } from './imageStore';
+import { CARD_ASPECT_RATIO, drawPlayerCard } from './playerCard';
+import type { CardPlacement, PlayerCardDetails } from './playerCard';
+import { createRng, createSeed } from './random';
+import type { Rng } from './random';
+
+export type AlbumTemplate = 'grid' | 'polaroid-table' | 'filmstrip' | 'hero' | 'squad';
+export type AlbumPageSize = 'a4' | 'letter' | 'square';
+export type AlbumOrientation = 'portrait' | 'landscape';
+
+export interface AlbumOptions {
+    /** The page layout; 'auto' picks one based on the number of cards. */
+    template?: AlbumTemplate | 'auto';
+    pageSize?: AlbumPageSize;
+    orientation?: AlbumOrientation;
+}
+
+export const ALBUM_TEMPLATE_LABELS: Record<AlbumTemplate, string> = {
+    'grid': 'Grid',
+    'polaroid-table': 'Polaroid Table',
+    'filmstrip': 'Filmstrip',
+    'hero': 'Hero (one per page)',
+    'squad': 'Squad (first card featured)',
+};
+
+export const ALBUM_PAGE_SIZE_LABELS: Record<AlbumPageSize, string> = {
+    'a4': 'A4',
+    'letter': 'Letter',
+    'square': 'Square',
+};
+
+// Portrait page dimensions in pixels, at 300 DPI for the paper sizes
+const PAGE_SIZES: Record<AlbumPageSize, { width: number; height: number }> = {
+    a4: { width: 2480, height: 3508 },
+    letter: { width: 2550, height: 3300 },
+    square: { width: 3000, height: 3000 },
+};
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Page {
+    width: number;
+    height: number;
+    /** Scale factor relative to a 2480px-wide A4 page, used for fonts and spacing. */
+    scale: number;
+    /** The area below the header (and above the page number, if any) available for cards. */
+    content: Rect;
+}
+
+interface TemplateDefinition {
+    /** The most cards that fit on one page of this template. */
+    capacity: (page: Page) => number;
+    /** Places the cards of one page; `rng` supplies the hand-placed jitter. */
+    layout: (count: number, page: Page, rng: Rng) => CardPlacement[];
+    drawBackground: (ctx: CanvasRenderingContext2D, page: Page, placements: CardPlacement[]) => void;
+}
+
+interface GridFit {
+    cols: number;
+    rows: number;
+    cellWidth: number;
+    cellHeight: number;
+    cardWidth: number;
 }
 
 /**
- * Creates a single "photo album" page image from a collection of character images.
- * @param imageData A record mapping character names to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * Finds the column count that gives the largest cards for a given number of cards in an area.
+ * @param count The number of cards.
+ * @param area The area to fill.
+ * @param gap The spacing between and around cells.
+ * @param fixed Optionally force a single row or column.
+ * @returns The grid dimensions and resulting card width.
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error('Could not get 2D canvas context');
+function fitGrid(count: number, area: Rect, gap: number, fixed?: 'row' | 'column'): GridFit {
+    let best: GridFit | null = null;
+    for (let cols = 1; cols <= count; cols++) {
+        const rows = Math.ceil(count / cols);
+        if (fixed === 'row' && rows !== 1) continue;
+        if (fixed === 'column' && cols !== 1) continue;
+
+        const cellWidth = (area.width - gap * (cols + 1)) / cols;
+        const cellHeight = (area.height - gap * (rows + 1)) / rows;
+        const cardWidth = Math.min(cellWidth, cellHeight / CARD_ASPECT_RATIO) * 0.9;
+        if (!best || cardWidth > best.cardWidth) {
+            best = { cols, rows, cellWidth, cellHeight, cardWidth };
+        }
     }
+    return best!;
+}
 
-    // 1. Draw the album page background
-    ctx.fillStyle = '#111111'; // Dark background
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+/**
+ * Lays cards out on a grid, centring an incomplete last row so no cell is left empty.
+ * @param count The number of cards.
+ * @param area The area to fill.
+ * @param fit The grid to use.
+ * @param gap The spacing between and around cells.
+ * @returns The centre point of each cell.
+ */
+function gridCenters(count: number, area: Rect, fit: GridFit, gap: number): { x: number; y: number }[] {
+    const { cols, rows, cellWidth, cellHeight } = fit;
+    const usedHeight = rows * cellHeight + (rows + 1) * gap;
+    const offsetY = (area.height - usedHeight) / 2;
 
-    // 2. Draw the title
-    ctx.fillStyle = '#F59E0B'; // PUBG Yellow
-    ctx.textAlign = 'center';
+    return Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        const itemsInRow = row === rows - 1 ? count - cols * (rows - 1) : cols;
+        const rowOffset = ((cols - itemsInRow) * (cellWidth + gap)) / 2;
+        return {
+            x: area.x + rowOffset + gap * (col + 1) + cellWidth * col + cellWidth / 2,
+            y: area.y + offsetY + gap * (row + 1) + cellHeight * row + cellHeight / 2,
+        };
+    });
+}
 
-    ctx.font = `140px 'Teko', sans-serif`;
-    ctx.fillText('PUBG LOBBY', canvasWidth / 2, 160);
+function fillBackground(ctx: CanvasRenderingContext2D, page: Page, color: string) {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, page.width, page.height);
+}
 
-    ctx.font = `50px 'Roboto', sans-serif`;
-    ctx.fillStyle = '#AAA';
-    ctx.fillText('Generated on Google AI Studio', canvasWidth / 2, 230);
+// Up to four teammates fit under the squad shot
+const SQUAD_MEMBER_CAPACITY = 4;
+
+const TEMPLATES: Record<AlbumTemplate, TemplateDefinition> = {
+    'grid': {
+        capacity: (page) => (page.width === page.height ? 9 : 6),
+        layout: (count, page, rng) => {
+            const gap = 100 * page.scale;
+            const fit = fitGrid(count, page.content, gap);
+            return gridCenters(count, page.content, fit, gap).map(center => ({
+                centerX: center.x,
+                centerY: center.y,
+                width: fit.cardWidth,
+                // Apply a slight, random rotation for a hand-placed look (approx. +/- 2 degrees)
+                rotation: (rng() - 0.5) * 0.08,
+            }));
+        },
+        drawBackground: (ctx, page) => fillBackground(ctx, page, '#111111'),
+    },
+
+    'polaroid-table': {
+        capacity: (page) => (page.width === page.height ? 9 : 6),
+        layout: (count, page, rng) => {
+            const gap = 60 * page.scale;
+            const fit = fitGrid(count, page.content, gap);
+            // Cards overlap a little and are tossed at steeper angles, like prints on a table
+            return gridCenters(count, page.content, fit, gap).map(center => ({
+                centerX: center.x + (rng() - 0.5) * fit.cellWidth * 0.15,
+                centerY: center.y + (rng() - 0.5) * fit.cellHeight * 0.15,
+                width: fit.cardWidth * 1.08,
+                rotation: (rng() - 0.5) * 0.3,
+            }));
+        },
+        drawBackground: (ctx, page) => {
+            const gradient = ctx.createRadialGradient(
+                page.width / 2, page.height / 2, 0,
+                page.width / 2, page.height / 2, Math.max(page.width, page.height) * 0.75,
+            );
+            gradient.addColorStop(0, '#3a2a1c');
+            gradient.addColorStop(1, '#120c07');
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, page.width, page.height);
+        },
+    },
+
+    'filmstrip': {
+        capacity: (page) => (page.width === page.height ? 3 : 4),
+        layout: (count, page) => {
+            const gap = 80 * page.scale;
+            const direction = page.height > page.width ? 'column' : 'row';
+            const fit = fitGrid(count, page.content, gap, direction);
+            return gridCenters(count, page.content, fit, gap).map(center => ({
+                centerX: center.x,
+                centerY: center.y,
+                width: fit.cardWidth,
+                rotation: 0,
+            }));
+        },
+        drawBackground: (ctx, page, placements) => {
+            fillBackground(ctx, page, '#111111');
+            if (placements.length === 0) return;
+
+            // Draw the film band behind the cards, with sprocket holes along both edges
+            const vertical = page.height > page.width;
+            const cardWidth = placements[0].width;
+            const bandThickness = (vertical ? cardWidth : cardWidth * CARD_ASPECT_RATIO) * 1.35;
+            const holeSize = 40 * page.scale;
+            const holeSpacing = holeSize * 2;
+            const band: Rect = vertical
+                ? { x: placements[0].centerX - bandThickness / 2, y: page.content.y, width: bandThickness, height: page.content.height }
+                : { x: 0, y: placements[0].centerY - bandThickness / 2, width: page.width, height: bandThickness };
+
+            ctx.fillStyle = '#050505';
+            ctx.fillRect(band.x, band.y, band.width, band.height);
+            ctx.fillStyle = '#2a2a2a';
+            const length = vertical ? band.height : band.width;
+            for (let offset = holeSpacing / 2; offset < length; offset += holeSpacing) {
+                if (vertical) {
+                    ctx.fillRect(band.x + holeSize / 2, band.y + offset, holeSize, holeSize * 0.7);
+                    ctx.fillRect(band.x + band.width - holeSize * 1.5, band.y + offset, holeSize, holeSize * 0.7);
+                } else {
+                    ctx.fillRect(band.x + offset, band.y + holeSize / 2, holeSize * 0.7, holeSize);
+                    ctx.fillRect(band.x + offset, band.y + band.height - holeSize * 1.5, holeSize * 0.7, holeSize);
+                }
+            }
+        },
+    },
+
+    'hero': {
+        capacity: () => 1,
+        layout: (count, page) => {
+            const gap = 120 * page.scale;
+            const fit = fitGrid(count, page.content, gap);
+            return gridCenters(count, page.content, fit, gap).map(center => ({
+                centerX: center.x,
+                centerY: center.y,
+                width: fit.cardWidth,
+                rotation: 0,
+            }));
+        },
+        drawBackground: (ctx, page) => {
+            const gradient = ctx.createLinearGradient(0, 0, 0, page.height);
+            gradient.addColorStop(0, '#1c1c1c');
+            gradient.addColorStop(1, '#0a0a0a');
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, page.width, page.height);
+        },
+    },
+
+    // The first card (the group shot) is featured, with the squad's solo cards in a row underneath
+    'squad': {
+        capacity: () => 1 + SQUAD_MEMBER_CAPACITY,
+        layout: (count, page, rng) => {
+            const gap = 80 * page.scale;
+            const { content } = page;
+            if (count <= 1) {
+                return TEMPLATES['hero'].layout(count, page, rng);
+            }
 
-    // 3. Load all the images concurrently
+            // The group shot gets the top 60% of the page, the solo cards share a row underneath
+            const featuredArea: Rect = { ...content, height: content.height * 0.6 };
+            const membersArea: Rect = { ...content, y: content.y + featuredArea.height, height: content.height - featuredArea.height };
+            const featuredFit = fitGrid(1, featuredArea, gap);
+            const memberFit = fitGrid(count - 1, membersArea, gap, 'row');
+
+            const [featuredCenter] = gridCenters(1, featuredArea, featuredFit, gap);
+            const memberCenters = gridCenters(count - 1, membersArea, memberFit, gap);
+            return [
+                { centerX: featuredCenter.x, centerY: featuredCenter.y, width: featuredFit.cardWidth, rotation: 0 },
+                ...memberCenters.map(center => ({
+                    centerX: center.x,
+                    centerY: center.y,
+                    width: memberFit.cardWidth,
+                    rotation: (rng() - 0.5) * 0.08,
+                })),
+            ];
+        },
+        drawBackground: (ctx, page, placements) => {
+            TEMPLATES['hero'].drawBackground(ctx, page, placements);
+            if (placements.length < 2) return;
+
+            // A yellow rule between the group shot and the squad's solo cards
+            const featured = placements[0];
+            const ruleY = featured.centerY + (featured.width * CARD_ASPECT_RATIO) / 2 + 40 * page.scale;
+            ctx.fillStyle = '#F59E0B';
+            ctx.fillRect(page.width * 0.2, ruleY, page.width * 0.6, 6 * page.scale);
+        },
+    },
+};
+
+/**
+ * Picks the template that best suits the number of cards.
+ * @param count The number of cards in the album.
+ * @returns 'hero' for a single card, 'filmstrip' for two or three, otherwise 'grid'.
+ */
+export function chooseAlbumTemplate(count: number): AlbumTemplate {
+    if (count <= 1) return 'hero';
+    if (count <= 3) return 'filmstrip';
+    return 'grid';
+}
+
+/**
+ * Resolves the pixel dimensions of an album page.
+ * @param options The page size and orientation.
+ * @returns The page width and height in pixels.
+ */
+export function getAlbumPageDimensions(options: AlbumOptions = {}): { width: number; height: number } {
+    const size = PAGE_SIZES[options.pageSize ?? 'a4'];
+    return options.orientation === 'landscape'
+        ? { width: size.height, height: size.width }
+        : { width: size.width, height: size.height };
+}
+
+/** A card positioned on an album page. */
+export interface PlacedCard extends CardPlacement {
+    character: string;
+    img: ImageBitmap;
+    details: PlayerCardDetails;
+}
+
+/** The resolved template, page geometry and card placements for every page of an album. */
+export interface AlbumLayout {
+    template: AlbumTemplate;
+    width: number;
+    height: number;
+    scale: number;
+    headerHeight: number;
+    footerHeight: number;
+    pages: PlacedCard[][];
+}
+
+export interface AlbumRenderOptions extends AlbumOptions {
+    /** What to print on each card, keyed by character. Cards without an entry show just their outfit. */
+    cards?: Record<string, PlayerCardDetails>;
+    /** Seeds the cards' tilt and jitter, so the same seed always lays the album out the same way. */
+    seed?: number;
+}
+
+export interface AlbumLayoutOptions extends AlbumRenderOptions {
+    /** Place every card upright, e.g. for print exports that embed cards as separate images. */
+    straight?: boolean;
+}
+
+export const ALBUM_TITLE = 'PUBG LOBBY';
+export const ALBUM_SUBTITLE = 'Generated on Google AI Studio';
+
+/**
+ * Loads the card images and works out the template, pagination and card placements of an album.
+ * Cards are split evenly across as many pages as the template needs.
+ * @param imageData A record mapping character names to their image URLs, usually object URLs from the image store.
+ * @param options The template, page size and orientation, and what to print on each card.
+ * @returns A promise that resolves to the album layout.
+ */
+export async function layoutAlbum(imageData: Record<string, string>, options: AlbumLayoutOptions = {}): Promise<AlbumLayout> {
     const characters = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
-    );
+    const templateName = !options.template || options.template === 'auto'
+        ? chooseAlbumTemplate(characters.length)
+        : options.template;
+    const template = TEMPLATES[templateName];
+    const { width, height } = getAlbumPageDimensions(options);
+    const scale = Math.min(width, height) / 2480;
 
-    const imagesWithCharacters = characters.map((character, index) => ({
+    // Decode all the images concurrently. If any fails, close the ones that decoded before giving up.
+    const store = getImageStore();
+    const decoded = await Promise.allSettled(characters.map(character => store.decode(imageData[character])));
+    const loadedImages = decoded.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failure = decoded.find(result => result.status === 'rejected');
+    if (failure) {
+        loadedImages.forEach(img => img.close());
+        throw failure.reason;
+    }
+    const cards = characters.map((character, index) => ({
         character,
         img: loadedImages[index],
+        details: options.cards?.[character] ?? { outfit: character },
     }));
 
-    // 4. Define grid layout and draw each player card
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 300; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
+    // Work out the page count first, since the page number footer takes space from the content area
+    const headerHeight = 300 * scale;
+    const fullPage: Page = { width, height, scale, content: { x: 0, y: headerHeight, width, height: height - headerHeight } };
+    const pageCount = Math.max(1, Math.ceil(cards.length / template.capacity(fullPage)));
+    const footerHeight = pageCount > 1 ? 120 * scale : 0;
+    const page: Page = { ...fullPage, content: { ...fullPage.content, height: fullPage.content.height - footerHeight } };
 
-    const cardAspectRatio = 1.25;
-    const maxCardWidth = cellWidth * 0.9;
-    const maxCardHeight = cellHeight * 0.9;
+    // Spread the cards evenly rather than leaving a nearly empty last page
+    const cardsPerPage = Math.ceil(cards.length / pageCount);
+    const rng = createRng(options.seed ?? createSeed());
+    const pages = Array.from({ length: pageCount }, (_, pageIndex) => {
+        const pageCards = cards.slice(pageIndex * cardsPerPage, (pageIndex + 1) * cardsPerPage);
+        const placements = template.layout(pageCards.length, page, rng);
+        return pageCards.map((card, index) => ({
+            ...placements[index],
+            ...card,
+            rotation: options.straight ? 0 : placements[index].rotation,
+        }));
+    });
 
-    let cardWidth = maxCardWidth;
-    let cardHeight = cardWidth * cardAspectRatio;
+    return { template: templateName, width, height, scale, headerHeight, footerHeight, pages };
+}
 
-    if (cardHeight > maxCardHeight) {
-        cardHeight = maxCardHeight;
-        cardWidth = cardHeight / cardAspectRatio;
-    }
+/**
+ * Draws the template background of one album page.
+ * @param ctx The context to draw into, sized to the page (or scaled to it).
+ * @param layout The album layout.
+ * @param pageIndex The page to draw.
+ */
+export function drawAlbumBackground(ctx: CanvasRenderingContext2D, layout: AlbumLayout, pageIndex: number) {
+    const page: Page = {
+        width: layout.width,
+        height: layout.height,
+        scale: layout.scale,
+        content: { x: 0, y: layout.headerHeight, width: layout.width, height: layout.height - layout.headerHeight - layout.footerHeight },
+    };
+    TEMPLATES[layout.template].drawBackground(ctx, page, layout.pages[pageIndex]);
+}
+
+/**
+ * Frees the decoded card images of an album layout once it has been drawn.
+ * @param layout The album layout.
+ */
+export function releaseAlbumLayout(layout: AlbumLayout) {
+    layout.pages.forEach(pageCards => pageCards.forEach(card => card.img.close()));
+}
 
-    const imageContainerWidth = cardWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth * 1.1; 
-
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithCharacters].reverse();
-    reversedImages.forEach(({ character, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithCharacters.length - 1 - reversedIndex;
-
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        // Calculate top-left corner of the card within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - cardWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - cardHeight) / 2;
-        
-        ctx.save();
-        
-        // Translate context to the center of the card for rotation
-        ctx.translate(x + cardWidth / 2, y + cardHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.08; // Radians (approx. +/- 2 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
-        ctx.shadowBlur = 50;
-        ctx.shadowOffsetX = 15;
-        ctx.shadowOffsetY = 20;
-        
-        // Draw the dark metallic player card frame with yellow accent
-        ctx.fillStyle = '#222';
-        ctx.fillRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight);
-        ctx.strokeStyle = '#F59E0B';
-        ctx.lineWidth = 8;
-        ctx.strokeRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
+/**
+ * Creates one or more "photo album" page images from a collection of character images.
+ * @param imageData A record mapping character names to their image URLs, usually object URLs from the image store.
+ * @param options The template, page size and orientation, and what to print on each card.
+ * @returns A promise that resolves to the generated album pages (JPEG format).
+ */
+export async function createAlbumPages(imageData: Record<string, string>, options: AlbumRenderOptions = {}): Promise<Blob[]> {
+    const layout = await layoutAlbum(imageData, options);
+    try {
+        const pages: Blob[] = [];
+        // One page at a time, so only one full-size canvas is alive at once
+        for (let pageIndex = 0; pageIndex < layout.pages.length; pageIndex++) {
+            pages.push(await drawAlbumPage(layout, pageIndex));
         }
+        return pages;
+    } finally {
+        releaseAlbumLayout(layout);
+    }
+}
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (cardWidth - imageContainerWidth) / 2.5;
-        const imageContainerY = -cardHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the caption
-        ctx.fillStyle = '#F0F0F0';
-        ctx.font = `80px 'Teko', sans-serif`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
+function drawAlbumPage(layout: AlbumLayout, pageIndex: number): Promise<Blob> {
+    const { width, height, scale, footerHeight } = layout;
+    const pageCount = layout.pages.length;
+    const pageCards = layout.pages[pageIndex];
 
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = cardHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
 
-        ctx.fillText(character, 0, captionY);
-        
-        ctx.restore(); // Restore context to pre-transformation state
-    });
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    // 1. Draw the album page background
+    drawAlbumBackground(ctx, layout, pageIndex);
+
+    // 2. Draw the title
+    ctx.fillStyle = '#F59E0B'; // PUBG Yellow
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+
+    ctx.font = `${140 * scale}px 'Teko', sans-serif`;
+    ctx.fillText(ALBUM_TITLE, width / 2, 160 * scale);
+
+    ctx.font = `${50 * scale}px 'Roboto', sans-serif`;
+    ctx.fillStyle = '#AAA';
+    ctx.fillText(ALBUM_SUBTITLE, width / 2, 230 * scale);
+
+    // 3. Draw each player card. Reverse the drawing order so earlier cards are rendered on top
+    for (let index = pageCards.length - 1; index >= 0; index--) {
+        drawPlayerCard(ctx, pageCards[index].img, pageCards[index].details, pageCards[index]);
+    }
+
+    // 4. Number the pages when there is more than one
+    if (pageCount > 1) {
+        ctx.fillStyle = '#777';
+        ctx.font = `${40 * scale}px 'Roboto', sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`Page ${pageIndex + 1} of ${pageCount}`, width / 2, height - footerHeight / 2);
+    }
 
-    // Convert canvas to a high-quality JPEG and return the data URL
-    return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+    // Convert canvas to a high-quality JPEG
+    return canvasToBlob(canvas, 'image/jpeg', 0.9);
+}
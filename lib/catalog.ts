@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import builtinCatalogData from '../data/catalog.json';
+
+// Bump when the catalog file format changes in a way older builds can't read
+export const CATALOG_SCHEMA_VERSION = 1;
+
+// The ID reserved for the catalog that ships with the app
+export const BUILTIN_CATALOG_ID = 'builtin';
+
+export type OutfitStyle = 'masculine' | 'feminine' | 'neutral';
+export type CatalogRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+const OUTFIT_STYLES: OutfitStyle[] = ['masculine', 'feminine', 'neutral'];
+const CATALOG_RARITIES: CatalogRarity[] = ['common', 'rare', 'epic', 'legendary'];
+
+export interface CatalogTags {
+    /** The map an entry belongs to, e.g. "Erangel". */
+    map?: string;
+    /** The season an entry was introduced in, e.g. "Season 24". */
+    season?: string;
+    rarity?: CatalogRarity;
+    /** Which outfit pool an outfit is drawn from. Untagged outfits are offered to everyone. */
+    style?: OutfitStyle;
+}
+
+export interface CatalogEntry {
+    /** The text used in prompts and on cards. Must be unique within its section. */
+    name: string;
+    /** Extra detail for the prompt. For maps this replaces the name in the scene description. */
+    description?: string;
+    tags: CatalogTags;
+}
+
+export interface Catalog {
+    schemaVersion: number;
+    id: string;
+    name: string;
+    version: string;
+    outfits: CatalogEntry[];
+    maps: CatalogEntry[];
+    scenarios: CatalogEntry[];
+}
+
+export type CatalogSection = 'outfits' | 'maps' | 'scenarios';
+
+const CATALOG_SECTIONS: CatalogSection[] = ['outfits', 'maps', 'scenarios'];
+
+export class CatalogValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CatalogValidationError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readString(record: Record<string, unknown>, key: string, path: string, required: true): string;
+function readString(record: Record<string, unknown>, key: string, path: string, required?: false): string | undefined;
+function readString(record: Record<string, unknown>, key: string, path: string, required = false): string | undefined {
+    const value = record[key];
+    if (value === undefined && !required) return undefined;
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new CatalogValidationError(`${path}.${key} must be a non-empty string.`);
+    }
+    return value.trim();
+}
+
+function readEnum<T extends string>(record: Record<string, unknown>, key: string, path: string, allowed: T[]): T | undefined {
+    const value = readString(record, key, path);
+    if (value !== undefined && !allowed.includes(value as T)) {
+        throw new CatalogValidationError(`${path}.${key} must be one of ${allowed.join(', ')}.`);
+    }
+    return value as T | undefined;
+}
+
+function parseTags(value: unknown, path: string): CatalogTags {
+    if (value === undefined) return {};
+    if (!isRecord(value)) {
+        throw new CatalogValidationError(`${path} must be an object.`);
+    }
+
+    const tags: CatalogTags = {};
+    const map = readString(value, 'map', path);
+    const season = readString(value, 'season', path);
+    const rarity = readEnum(value, 'rarity', path, CATALOG_RARITIES);
+    const style = readEnum(value, 'style', path, OUTFIT_STYLES);
+    if (map) tags.map = map;
+    if (season) tags.season = season;
+    if (rarity) tags.rarity = rarity;
+    if (style) tags.style = style;
+    return tags;
+}
+
+function parseEntries(value: unknown, section: CatalogSection): CatalogEntry[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        throw new CatalogValidationError(`${section} must be an array.`);
+    }
+
+    const seen = new Set<string>();
+    return value.map((entry, index) => {
+        const path = `${section}[${index}]`;
+        if (!isRecord(entry)) {
+            throw new CatalogValidationError(`${path} must be an object.`);
+        }
+
+        const name = readString(entry, 'name', path, true);
+        if (seen.has(name)) {
+            throw new CatalogValidationError(`${path}.name "${name}" is listed more than once.`);
+        }
+        seen.add(name);
+
+        const description = readString(entry, 'description', path);
+        return {
+            name,
+            ...(description ? { description } : {}),
+            tags: parseTags(entry.tags, `${path}.tags`),
+        };
+    });
+}
+
+/**
+ * Validates parsed JSON against the catalog schema.
+ * Sections a pack doesn't use may be left out and are treated as empty.
+ * @param data The parsed JSON.
+ * @returns The validated catalog.
+ * @throws CatalogValidationError describing the first problem found.
+ */
+export function parseCatalog(data: unknown): Catalog {
+    if (!isRecord(data)) {
+        throw new CatalogValidationError('A catalog must be a JSON object.');
+    }
+
+    const { schemaVersion } = data;
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion)) {
+        throw new CatalogValidationError('schemaVersion must be a whole number.');
+    }
+    if (schemaVersion > CATALOG_SCHEMA_VERSION) {
+        throw new CatalogValidationError(`This catalog uses schema version ${schemaVersion}, but this app only understands up to version ${CATALOG_SCHEMA_VERSION}.`);
+    }
+
+    return {
+        schemaVersion,
+        id: readString(data, 'id', 'catalog', true),
+        name: readString(data, 'name', 'catalog', true),
+        version: readString(data, 'version', 'catalog') ?? '1.0.0',
+        outfits: parseEntries(data.outfits, 'outfits'),
+        maps: parseEntries(data.maps, 'maps'),
+        scenarios: parseEntries(data.scenarios, 'scenarios'),
+    };
+}
+
+/**
+ * Reads a catalog pack from JSON text, e.g. the contents of an imported file.
+ * @param json The JSON text.
+ * @returns The validated catalog.
+ * @throws CatalogValidationError if the text isn't JSON or doesn't match the schema.
+ */
+export function parseCatalogJson(json: string): Catalog {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new CatalogValidationError("The file isn't valid JSON.");
+    }
+    return parseCatalog(data);
+}
+
+/**
+ * Serializes a catalog for export.
+ * @param catalog The catalog to export.
+ * @returns Pretty-printed JSON text that `parseCatalogJson` reads back.
+ */
+export function serializeCatalog(catalog: Catalog): string {
+    return `${JSON.stringify(catalog, null, 4)}\n`;
+}
+
+/**
+ * Merges catalogs into one. Entries are keyed by name, so a later catalog can
+ * override the description or tags of an entry from an earlier one.
+ * @param catalogs The catalogs to merge, built-in first.
+ * @returns A combined catalog that keeps the first catalog's identity.
+ */
+export function mergeCatalogs(catalogs: Catalog[]): Catalog {
+    const [base, ...packs] = catalogs;
+    const merged: Catalog = { ...base };
+    for (const section of CATALOG_SECTIONS) {
+        const entries = new Map<string, CatalogEntry>();
+        [base, ...packs].forEach(catalog => catalog[section].forEach(entry => entries.set(entry.name, entry)));
+        merged[section] = Array.from(entries.values());
+    }
+    return merged;
+}
+
+/**
+ * Lists the names of a catalog section, e.g. for a select box.
+ * @param catalog The catalog to read.
+ * @param section The section to list.
+ * @returns The entry names in catalog order.
+ */
+export function getEntryNames(catalog: Catalog, section: CatalogSection): string[] {
+    return catalog[section].map(entry => entry.name);
+}
+
+/**
+ * Finds an entry by name.
+ * @param catalog The catalog to search.
+ * @param section The section to search.
+ * @param name The entry name.
+ * @returns The entry, or undefined if the catalog doesn't list it (e.g. a pack was removed since).
+ */
+export function findEntry(catalog: Catalog, section: CatalogSection, name: string): CatalogEntry | undefined {
+    return catalog[section].find(entry => entry.name === name);
+}
+
+export const BUILTIN_CATALOG = parseCatalog(builtinCatalogData);
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type OutputImageType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface PreprocessOptions {
+    /** Longest edge of the output in pixels. Larger photos are scaled down to fit. */
+    maxDimension?: number;
+    /** Largest file accepted, in bytes. */
+    maxFileBytes?: number;
+    outputType?: OutputImageType;
+    /** Encoder quality for JPEG and WebP, from 0 to 1. */
+    quality?: number;
+}
+
+export interface PreprocessedImage {
+    dataUrl: string;
+    mimeType: OutputImageType;
+    width: number;
+    height: number;
+}
+
+export const DEFAULT_MAX_DIMENSION = 1536;
+export const DEFAULT_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+// Formats every current browser can decode onto a canvas
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/avif'];
+
+// Decoding huge images can exhaust memory on phones, whatever their file size
+const MAX_SOURCE_PIXELS = 100_000_000;
+
+/** Thrown for files that can't be used as a photo. The message is meant for the user. */
+export class ImagePreprocessingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImagePreprocessingError';
+    }
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Rejects files we know can't be used, before spending time decoding them.
+ * Browsers sometimes leave `file.type` empty, so the extension is checked too.
+ */
+function checkFile(file: File, maxFileBytes: number) {
+    const type = file.type.toLowerCase();
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+
+    if (type === 'image/heic' || type === 'image/heif' || extension === 'heic' || extension === 'heif') {
+        throw new ImagePreprocessingError("HEIC photos aren't supported. On iPhone, choose \"Most Compatible\" under Settings > Camera > Formats, or export the photo as JPEG.");
+    }
+    if (type === 'image/svg+xml' || extension === 'svg') {
+        throw new ImagePreprocessingError("SVG drawings aren't supported. Please upload a photo (JPEG, PNG or WebP).");
+    }
+    if (type && !SUPPORTED_TYPES.includes(type)) {
+        throw new ImagePreprocessingError(`${type.startsWith('image/') ? type.slice('image/'.length).toUpperCase() : 'That'} files aren't supported. Please upload a JPEG, PNG or WebP photo.`);
+    }
+    if (file.size > maxFileBytes) {
+        throw new ImagePreprocessingError(`This photo is ${formatMegabytes(file.size)}, which is over the ${formatMegabytes(maxFileBytes)} limit. Please pick a smaller one.`);
+    }
+}
+
+/**
+ * Decodes a file with its EXIF orientation applied, so the pixels come out upright.
+ */
+async function decodeImage(file: File): Promise<ImageBitmap | HTMLImageElement> {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            return await createImageBitmap(file, { imageOrientation: 'from-image' });
+        } catch {
+            // Fall through to an <img>, which some browsers decode more formats with.
+        }
+    }
+
+    // <img> elements honour EXIF orientation by default (`image-orientation: from-image`).
+    const url = URL.createObjectURL(file);
+    try {
+        return await new Promise<HTMLImageElement>((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error('decode failed'));
+            img.src = url;
+        });
+    } catch {
+        throw new ImagePreprocessingError("This file couldn't be read as an image. It may be damaged or in a format your browser can't open.");
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * Prepares an uploaded photo for the image model: applies its EXIF orientation,
+ * scales it down to fit `maxDimension`, and re-encodes it, which also strips its metadata.
+ * @param file The file the user picked.
+ * @param options Size limits and output format.
+ * @returns A promise that resolves to the re-encoded image.
+ * @throws ImagePreprocessingError with a user-facing message if the file can't be used.
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+    const {
+        maxDimension = DEFAULT_MAX_DIMENSION,
+        maxFileBytes = DEFAULT_MAX_FILE_BYTES,
+        outputType = 'image/jpeg',
+        quality = 0.9,
+    } = options;
+
+    checkFile(file, maxFileBytes);
+    const source = await decodeImage(file);
+
+    try {
+        const sourceWidth = source.width;
+        const sourceHeight = source.height;
+        if (sourceWidth === 0 || sourceHeight === 0) {
+            throw new ImagePreprocessingError("This image appears to be empty.");
+        }
+        if (sourceWidth * sourceHeight > MAX_SOURCE_PIXELS) {
+            throw new ImagePreprocessingError(`This image is ${sourceWidth}×${sourceHeight} pixels, which is too large to process. Please pick a smaller one.`);
+        }
+
+        const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+        canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        if (outputType === 'image/jpeg') {
+            // JPEG has no transparency; flatten onto white rather than black
+            ctx.fillStyle = '#FFFFFF';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+        // Browsers that can't encode the requested type silently fall back to PNG
+        const dataUrl = canvas.toDataURL(outputType, quality);
+        const mimeType = dataUrl.startsWith(`data:${outputType};`) ? outputType : 'image/png';
+
+        return { dataUrl, mimeType, width: canvas.width, height: canvas.height };
+    } finally {
+        if ('close' in source) {
+            source.close();
+        }
+    }
+}
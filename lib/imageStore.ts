@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Keeps generated images as Blobs and hands out object URLs for them, so React state, `<img>` tags
+ * and the canvas renderers share one copy of each image instead of passing base64 strings around.
+ */
+export interface ImageStore {
+    /** Stores a Blob and returns the object URL that identifies it from now on. */
+    put(blob: Blob): string;
+    /** Reads an image as a Blob: straight from the store if the URL is one of its own, otherwise by fetching it. */
+    getBlob(url: string): Promise<Blob>;
+    /** Decodes an image for drawing onto a canvas. Close the bitmap once it has been drawn. */
+    decode(url: string): Promise<ImageBitmap>;
+    /** Releases one image. Its URL stops working. */
+    revoke(url: string): void;
+    /** Releases every image, e.g. when the lobby is reset. */
+    revokeAll(): void;
+}
+
+/**
+ * Decodes a data URL in place, rather than through a `fetch` that copies it again.
+ * @param dataUrl The data URL, e.g. an image fresh from the model.
+ * @returns Its contents.
+ */
+export function decodeDataUrl(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
+    if (!match) {
+        throw new Error('Invalid data URL format');
+    }
+    const [, mimeType = 'application/octet-stream', isBase64, data] = match;
+    if (!isBase64) {
+        return new Blob([decodeURIComponent(data)], { type: mimeType });
+    }
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Creates an empty image store.
+ * @returns The store.
+ */
+export function createImageStore(): ImageStore {
+    const blobs = new Map<string, Blob>();
+
+    const put = (blob: Blob): string => {
+        const url = URL.createObjectURL(blob);
+        blobs.set(url, blob);
+        return url;
+    };
+
+    const getBlob = async (url: string): Promise<Blob> => {
+        const stored = blobs.get(url);
+        if (stored) return stored;
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load image: ${url.substring(0, 50)}...`);
+        }
+        return response.blob();
+    };
+
+    const revoke = (url: string) => {
+        if (!blobs.delete(url)) return;
+        URL.revokeObjectURL(url);
+    };
+
+    return {
+        put,
+        getBlob,
+        decode: async (url) => createImageBitmap(await getBlob(url)),
+        revoke,
+        revokeAll: () => {
+            [...blobs.keys()].forEach(revoke);
+        },
+    };
+}
+
+/**
+ * Encodes a canvas as an image file.
+ * @param canvas The canvas to encode.
+ * @param type The image format.
+ * @param quality The JPEG or WebP quality, from 0 to 1.
+ * @returns A promise that resolves to the encoded image.
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/jpeg', quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the canvas'))), type, quality);
+    });
+}
+
+let sharedImageStore: ImageStore | null = null;
+
+/**
+ * Returns the app-wide image store that every generated card lives in.
+ * @returns The shared store.
+ */
+export function getImageStore(): ImageStore {
+    if (!sharedImageStore) {
+        sharedImageStore = createImageStore();
+    }
+    return sharedImageStore;
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_CATALOG, getEntryNames } from './catalog';
+import { decodeLoadoutCode, encodeLoadoutCode, LoadoutCodeError } from './loadoutCode';
+import type { GenerationItem } from '../types';
+
+const MAX_ITEMS = 4;
+const outfits = getEntryNames(BUILTIN_CATALOG, 'outfits');
+const maps = getEntryNames(BUILTIN_CATALOG, 'maps');
+const scenarios = getEntryNames(BUILTIN_CATALOG, 'scenarios');
+
+const builtinLoadout: GenerationItem[] = [
+    { character: outfits[0], map: maps[0], scenario: scenarios[0] },
+    { character: outfits[outfits.length - 1], map: maps[maps.length - 1], scenario: scenarios[scenarios.length - 1] },
+    { character: outfits[1], map: maps[0], scenario: scenarios[1] },
+];
+
+describe('loadout codes', () => {
+    it('round-trips built-in entries through the fixed-width form', () => {
+        const code = encodeLoadoutCode(builtinLoadout);
+        expect(code).toMatch(/^[0-9A-Z]{6}(-[0-9A-Z]{6}){2}$/);
+        expect(decodeLoadoutCode(code, MAX_ITEMS)).toEqual(builtinLoadout);
+    });
+
+    it('ignores surrounding whitespace and letter case', () => {
+        const code = encodeLoadoutCode(builtinLoadout);
+        expect(decodeLoadoutCode(`  ${code.toLowerCase()}\n`, MAX_ITEMS)).toEqual(builtinLoadout);
+    });
+
+    it('round-trips custom entries through the explicit ~ form', () => {
+        const loadout: GenerationItem[] = [
+            builtinLoadout[0],
+            { character: 'Señor Ghillie 🌿', map: 'Custom Island', scenario: 'Dropping in at "dawn" / dusk' },
+        ];
+        const code = encodeLoadoutCode(loadout);
+        expect(code.startsWith('~')).toBe(true);
+        // Safe to put in a URL without escaping
+        expect(code).toBe(encodeURIComponent(code));
+        expect(decodeLoadoutCode(code, MAX_ITEMS)).toEqual(loadout);
+    });
+
+    it('only encodes the outfit, map and scenario', () => {
+        const code = encodeLoadoutCode([{ ...builtinLoadout[0], title: 'xXSniperXx' }]);
+        expect(decodeLoadoutCode(code, MAX_ITEMS)).toEqual([builtinLoadout[0]]);
+    });
+
+    it.each([
+        ['a malformed slot', 'ZZ'],
+        ['a position past the catalog', 'ZZZZZZ'],
+        ['a damaged explicit code', '~not-json'],
+        ['too many cards', encodeLoadoutCode([...builtinLoadout, { character: outfits[2], map: maps[0], scenario: scenarios[0] }, { character: outfits[3], map: maps[0], scenario: scenarios[0] }])],
+        ['the same outfit twice', encodeLoadoutCode([builtinLoadout[0], { ...builtinLoadout[0], map: maps[1] }])],
+    ])('rejects %s', (_, code) => {
+        expect(() => decodeLoadoutCode(code, MAX_ITEMS)).toThrow(LoadoutCodeError);
+    });
+});
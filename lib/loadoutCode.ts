@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BUILTIN_CATALOG, getEntryNames } from './catalog';
+import type { CatalogSection } from './catalog';
+import type { GenerationItem } from '../types';
+
+/** The URL search parameter a shared loadout travels in, e.g. `?loadout=0A1203-1B0207`. */
+export const LOADOUT_PARAM = 'loadout';
+
+// Each built-in entry is written as a fixed-width base-36 position in its section
+const INDEX_RADIX = 36;
+const INDEX_WIDTH = 2;
+const ITEM_SEPARATOR = '-';
+// Codes for loadouts that use entries from custom packs spell the names out instead
+const EXPLICIT_PREFIX = '~';
+
+const ITEM_SECTIONS: [CatalogSection, keyof Pick<GenerationItem, 'character' | 'map' | 'scenario'>][] = [
+    ['outfits', 'character'],
+    ['maps', 'map'],
+    ['scenarios', 'scenario'],
+];
+
+const SECTION_NOUNS: Record<CatalogSection, string> = {
+    outfits: 'an outfit',
+    maps: 'a map',
+    scenarios: 'a scenario',
+};
+
+export class LoadoutCodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LoadoutCodeError';
+    }
+}
+
+const BUILTIN_NAMES = Object.fromEntries(
+    ITEM_SECTIONS.map(([section]) => [section, getEntryNames(BUILTIN_CATALOG, section)]),
+) as Record<CatalogSection, string[]>;
+
+const toBase64Url = (text: string): string => {
+    const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const encodeIndexedItem = (item: GenerationItem): string | null => {
+    let code = '';
+    for (const [section, field] of ITEM_SECTIONS) {
+        const index = BUILTIN_NAMES[section].indexOf(item[field]);
+        if (index < 0 || index >= INDEX_RADIX ** INDEX_WIDTH) return null;
+        code += index.toString(INDEX_RADIX).padStart(INDEX_WIDTH, '0');
+    }
+    return code.toUpperCase();
+};
+
+const decodeIndexedItem = (code: string): GenerationItem => {
+    if (!new RegExp(`^[0-9A-Z]{${INDEX_WIDTH * ITEM_SECTIONS.length}}$`, 'i').test(code)) {
+        throw new LoadoutCodeError(`"${code}" isn't a valid loadout slot.`);
+    }
+    const names = ITEM_SECTIONS.map(([section], position) => {
+        const index = parseInt(code.slice(position * INDEX_WIDTH, (position + 1) * INDEX_WIDTH), INDEX_RADIX);
+        const name = BUILTIN_NAMES[section][index];
+        if (!name) {
+            throw new LoadoutCodeError(`This loadout uses ${SECTION_NOUNS[section]} this version of the app doesn't have.`);
+        }
+        return name;
+    });
+    return { character: names[0], map: names[1], scenario: names[2] };
+};
+
+const decodeExplicitItems = (encoded: string): GenerationItem[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(fromBase64Url(encoded));
+    } catch {
+        throw new LoadoutCodeError("This loadout code is damaged. Check that the whole link was copied.");
+    }
+    if (!Array.isArray(data)) {
+        throw new LoadoutCodeError("This loadout code is damaged. Check that the whole link was copied.");
+    }
+    return data.map(entry => {
+        if (!Array.isArray(entry) || entry.length !== 3 || !entry.every(name => typeof name === 'string' && name.trim())) {
+            throw new LoadoutCodeError("This loadout code is damaged. Check that the whole link was copied.");
+        }
+        return { character: entry[0], map: entry[1], scenario: entry[2] };
+    });
+};
+
+/**
+ * Encodes a loadout as a shareable code. Loadouts made only of built-in entries get a short code
+ * of catalog positions; anything from a custom pack is spelled out by name, so the code is longer.
+ * Positions refer to the built-in catalog, so new entries must be added to the end of their section.
+ * @param items The loadout's cards. Only the outfit, map and scenario are encoded.
+ * @returns The loadout code, safe to put in a URL as-is.
+ */
+export function encodeLoadoutCode(items: GenerationItem[]): string {
+    const indexed = items.map(encodeIndexedItem);
+    if (indexed.every(code => code !== null)) {
+        return indexed.join(ITEM_SEPARATOR);
+    }
+    return EXPLICIT_PREFIX + toBase64Url(JSON.stringify(items.map(item => [item.character, item.map, item.scenario])));
+}
+
+/**
+ * Decodes a loadout code back into the cards it describes.
+ * @param code The code, as produced by `encodeLoadoutCode`. Surrounding whitespace and letter case are ignored.
+ * @param maxItems The most cards a loadout may have.
+ * @returns The loadout's cards, in order.
+ * @throws {LoadoutCodeError} If the code is malformed, too long, or refers to entries this version doesn't have.
+ */
+export function decodeLoadoutCode(code: string, maxItems: number): GenerationItem[] {
+    const trimmed = code.trim();
+    const items = trimmed.startsWith(EXPLICIT_PREFIX)
+        ? decodeExplicitItems(trimmed.slice(EXPLICIT_PREFIX.length))
+        : trimmed.split(ITEM_SEPARATOR).map(decodeIndexedItem);
+
+    if (items.length === 0 || items.length > maxItems) {
+        throw new LoadoutCodeError(`A loadout has between 1 and ${maxItems} cards.`);
+    }
+    // Cards are keyed by outfit, so a loadout can't wear the same one twice
+    if (new Set(items.map(item => item.character)).size !== items.length) {
+        throw new LoadoutCodeError("This loadout uses the same outfit twice.");
+    }
+    return items;
+}
+
+/**
+ * Builds a link that opens the app with a loadout ready to play.
+ * @param code The loadout code.
+ * @returns The current page's URL with the code in its `loadout` parameter.
+ */
+export function getLoadoutLink(code: string): string {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set(LOADOUT_PARAM, code);
+    return url.toString();
+}
+
+/**
+ * Reads the loadout code a shared link was opened with.
+ * @returns The code, or null if the page wasn't opened from a loadout link.
+ */
+export function getLoadoutCodeFromUrl(): string | null {
+    return new URL(window.location.href).searchParams.get(LOADOUT_PARAM)?.trim() || null;
+}
+
+/**
+ * Removes the loadout code from the address bar once it has been used or dismissed,
+ * so reloading the page doesn't bring it back.
+ */
+export function clearLoadoutCodeFromUrl() {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(LOADOUT_PARAM)) return;
+    url.searchParams.delete(LOADOUT_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+}
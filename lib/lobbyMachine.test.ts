@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getNextPhase, INITIAL_LOBBY_STATE, lobbyReducer } from './lobbyMachine';
+import type { LobbyEvent, LobbyPhase, LobbyState } from './lobbyMachine';
+
+const PHASES: LobbyPhase[] = ['idle', 'analyzing', 'building', 'generating', 'results-shown'];
+
+const replay = (events: LobbyEvent['type'][], state: LobbyState = INITIAL_LOBBY_STATE): LobbyState => (
+    events.reduce((current, type) => lobbyReducer(current, { type }), state)
+);
+
+describe('lobbyReducer', () => {
+    it('walks a photo through to results', () => {
+        const state = replay(['PHOTO_RECEIVED', 'LOADOUT_READY', 'GENERATE', 'GENERATION_DONE']);
+        expect(state.phase).toBe('results-shown');
+    });
+
+    it('lets results be generated again, e.g. to retry failed cards', () => {
+        expect(replay(['GENERATE'], { phase: 'results-shown' }).phase).toBe('generating');
+    });
+
+    describe('illegal transitions', () => {
+        it.each<[LobbyPhase, LobbyEvent['type']]>([
+            ['idle', 'GENERATE'],
+            ['idle', 'GENERATION_DONE'],
+            ['analyzing', 'GENERATE'],
+            ['building', 'PHOTO_RECEIVED'],
+            ['generating', 'GENERATE'],
+            ['generating', 'LOADOUT_READY'],
+            ['results-shown', 'GENERATION_DONE'],
+        ])('rejects %s + %s', (phase, type) => {
+            const state: LobbyState = { phase };
+            expect(getNextPhase(phase, { type })).toBeNull();
+            // Rejected events hand back the same object, so React skips the re-render
+            expect(lobbyReducer(state, { type })).toBe(state);
+        });
+    });
+
+    describe('SESSION_RESTORED', () => {
+        it.each(PHASES)('shows the restored results from %s', phase => {
+            expect(lobbyReducer({ phase }, { type: 'SESSION_RESTORED' }).phase).toBe('results-shown');
+        });
+    });
+
+    describe('cancellation', () => {
+        it('goes back to idle when reset mid-generation', () => {
+            expect(replay(['RESET'], { phase: 'generating' }).phase).toBe('idle');
+        });
+
+        it('ignores a batch that finishes after the lobby was reset', () => {
+            expect(replay(['RESET', 'GENERATION_DONE'], { phase: 'generating' }).phase).toBe('idle');
+        });
+
+        it('shows the results once a cancelled batch settles', () => {
+            // Cancelling cards keeps the lobby generating until the batch reports back
+            expect(replay(['GENERATION_DONE'], { phase: 'generating' }).phase).toBe('results-shown');
+        });
+
+        it('goes back to idle when the photo analysis fails', () => {
+            expect(replay(['PHOTO_RECEIVED', 'ANALYSIS_FAILED']).phase).toBe('idle');
+        });
+    });
+});
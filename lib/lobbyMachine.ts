@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Where the lobby is: waiting for a photo, building a loadout, generating cards or showing them. */
+export type LobbyPhase = 'idle' | 'analyzing' | 'building' | 'generating' | 'results-shown';
+
+export type LobbyEvent =
+    /** A photo arrived and is being analyzed for a style suggestion. */
+    | { type: 'PHOTO_RECEIVED' }
+    /** A loadout was rolled (or shared) and is ready to edit. */
+    | { type: 'LOADOUT_READY' }
+    | { type: 'ANALYSIS_FAILED' }
+    /** The loadout was confirmed, or failed cards are being retried. */
+    | { type: 'GENERATE' }
+    /** Every card in the batch has finished, failed or been cancelled. */
+    | { type: 'GENERATION_DONE' }
+    /** A session was reopened from history, with its cards already made. */
+    | { type: 'SESSION_RESTORED' }
+    | { type: 'RESET' };
+
+export type LobbyEventType = LobbyEvent['type'];
+
+export interface LobbyState {
+    phase: LobbyPhase;
+}
+
+export const INITIAL_LOBBY_STATE: LobbyState = { phase: 'idle' };
+
+// Every event a phase accepts, and the phase it leads to. Anything missing is an illegal transition.
+const TRANSITIONS: Record<LobbyPhase, Partial<Record<LobbyEventType, LobbyPhase>>> = {
+    'idle': {
+        PHOTO_RECEIVED: 'analyzing',
+        LOADOUT_READY: 'building',
+        SESSION_RESTORED: 'results-shown',
+        RESET: 'idle',
+    },
+    'analyzing': {
+        LOADOUT_READY: 'building',
+        ANALYSIS_FAILED: 'idle',
+        SESSION_RESTORED: 'results-shown',
+        RESET: 'idle',
+    },
+    'building': {
+        GENERATE: 'generating',
+        SESSION_RESTORED: 'results-shown',
+        RESET: 'idle',
+    },
+    'generating': {
+        GENERATION_DONE: 'results-shown',
+        SESSION_RESTORED: 'results-shown',
+        RESET: 'idle',
+    },
+    'results-shown': {
+        GENERATE: 'generating',
+        SESSION_RESTORED: 'results-shown',
+        RESET: 'idle',
+    },
+};
+
+/**
+ * Works out where an event leads from the given phase.
+ * @param phase The current phase.
+ * @param event The event to apply.
+ * @returns The next phase, or null if the phase doesn't accept the event.
+ */
+export function getNextPhase(phase: LobbyPhase, event: LobbyEvent): LobbyPhase | null {
+    return TRANSITIONS[phase][event.type] ?? null;
+}
+
+/**
+ * The lobby's reducer. Illegal events leave the state untouched.
+ * @param state The current state.
+ * @param event The event to apply.
+ * @returns The next state.
+ */
+export function lobbyReducer(state: LobbyState, event: LobbyEvent): LobbyState {
+    const phase = getNextPhase(state.phase, event);
+    return phase === null || phase === state.phase ? state : { ...state, phase };
+}
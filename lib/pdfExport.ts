@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { jsPDF } from 'jspdf';
+import { ALBUM_SUBTITLE, ALBUM_TITLE, drawAlbumBackground, layoutAlbum, releaseAlbumLayout } from './albumUtils';
+import type { AlbumRenderOptions, PlacedCard } from './albumUtils';
+import { CARD_ASPECT_RATIO, renderPlayerCardCanvas } from './playerCard';
+
+// Album layouts are measured in pixels at 300 DPI; PDF coordinates are points (72 per inch)
+const PX_TO_PT = 72 / 300;
+
+// The page backgrounds are plain gradients, so they are rasterised at a lower resolution than the cards
+const BACKGROUND_SCALE = 0.4;
+
+export interface AlbumPdfOptions extends AlbumRenderOptions {
+    /** Print every card on its own page, regardless of the chosen template. */
+    onePerPage?: boolean;
+}
+
+/**
+ * Draws the drop shadow each card casts onto the page, since the cards themselves are
+ * embedded as separate images on top of the background.
+ */
+function drawCardShadow(ctx: CanvasRenderingContext2D, card: PlacedCard) {
+    const cardHeight = card.width * CARD_ASPECT_RATIO;
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
+    ctx.shadowBlur = card.width * 0.075 * BACKGROUND_SCALE; // Shadow sizes ignore the context's transform
+    ctx.shadowOffsetX = card.width * 0.022 * BACKGROUND_SCALE;
+    ctx.shadowOffsetY = card.width * 0.03 * BACKGROUND_SCALE;
+    ctx.fillStyle = '#222';
+    ctx.fillRect(card.centerX - card.width / 2, card.centerY - cardHeight / 2, card.width, cardHeight);
+    ctx.restore();
+}
+
+/**
+ * Renders a page's background and card shadows to a JPEG data URL.
+ */
+function renderPageBackground(layout: Awaited<ReturnType<typeof layoutAlbum>>, pageIndex: number): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(layout.width * BACKGROUND_SCALE);
+    canvas.height = Math.round(layout.height * BACKGROUND_SCALE);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    ctx.scale(BACKGROUND_SCALE, BACKGROUND_SCALE);
+    drawAlbumBackground(ctx, layout, pageIndex);
+    layout.pages[pageIndex].forEach(card => drawCardShadow(ctx, card));
+
+    return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+/**
+ * Creates a printable PDF of the album, built on the same layout as the JPEG album pages.
+ * Each album page becomes a PDF page with vector title text, and every card is embedded
+ * as its own full-resolution image. Cards are placed upright for printing.
+ * @param imageData A record mapping character names to their image URLs, usually object URLs from the image store.
+ * @param options The template, page size, orientation and card details, and whether to print one card per page.
+ * @returns A promise that resolves to the PDF file as a Blob.
+ */
+export async function createAlbumPdf(imageData: Record<string, string>, options: AlbumPdfOptions = {}): Promise<Blob> {
+    const { onePerPage, ...albumOptions } = options;
+    const layout = await layoutAlbum(imageData, {
+        ...albumOptions,
+        template: onePerPage ? 'hero' : albumOptions.template,
+        straight: true,
+    });
+    const pageWidth = layout.width * PX_TO_PT;
+    const pageHeight = layout.height * PX_TO_PT;
+    const orientation = pageWidth > pageHeight ? 'landscape' : 'portrait';
+    const pageCount = layout.pages.length;
+    const pt = (px: number) => px * layout.scale * PX_TO_PT;
+
+    const doc = new jsPDF({ unit: 'pt', format: [pageWidth, pageHeight], orientation, compress: true });
+    doc.setProperties({ title: 'PUBG Lobby Album', creator: 'PUBG Lobby' });
+
+    try {
+        layout.pages.forEach((pageCards, pageIndex) => {
+            if (pageIndex > 0) {
+                doc.addPage([pageWidth, pageHeight], orientation);
+            }
+
+            // 1. Background and card shadows as a single low-resolution image
+            doc.addImage(renderPageBackground(layout, pageIndex), 'JPEG', 0, 0, pageWidth, pageHeight);
+
+            // 2. Vector title text
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(pt(120));
+            doc.setTextColor('#F59E0B');
+            doc.text(ALBUM_TITLE, pageWidth / 2, pt(160), { align: 'center' });
+
+            doc.setFont('helvetica', 'normal');
+            doc.setFontSize(pt(50));
+            doc.setTextColor('#AAAAAA');
+            doc.text(ALBUM_SUBTITLE, pageWidth / 2, pt(230), { align: 'center' });
+
+            // 3. Each card as its own full-resolution image
+            pageCards.forEach(card => {
+                const cardCanvas = renderPlayerCardCanvas(card.img, card.details);
+                const width = card.width * PX_TO_PT;
+                const height = width * CARD_ASPECT_RATIO;
+                doc.addImage(
+                    cardCanvas.toDataURL('image/jpeg', 0.92), 'JPEG',
+                    card.centerX * PX_TO_PT - width / 2, card.centerY * PX_TO_PT - height / 2, width, height,
+                );
+            });
+
+            // 4. Number the pages when there is more than one
+            if (pageCount > 1) {
+                doc.setFontSize(pt(40));
+                doc.setTextColor('#777777');
+                doc.text(`Page ${pageIndex + 1} of ${pageCount}`, pageWidth / 2, pageHeight - (layout.footerHeight * PX_TO_PT) / 2, { align: 'center', baseline: 'middle' });
+            }
+        });
+
+        return doc.output('blob');
+    } finally {
+        // The cards are all embedded, so their decoded images can go
+        releaseAlbumLayout(layout);
+    }
+}
@@ -0,0 +1,379 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToBlob, getImageStore } from './imageStore';
+
+// Player cards are drawn 1.25 times taller than they are wide
+export const CARD_ASPECT_RATIO = 1.25;
+
+export type RankTier = 'bronze' | 'silver' | 'gold' | 'platinum' | 'diamond' | 'crown' | 'ace' | 'conqueror';
+export type PlayerCardFrame = 'classic' | 'tactical' | 'elite';
+
+/** Lowest to highest, with the colour of each tier's badge. */
+export const RANK_TIERS: Record<RankTier, { label: string; color: string }> = {
+    bronze: { label: 'Bronze', color: '#B87333' },
+    silver: { label: 'Silver', color: '#C0C7CF' },
+    gold: { label: 'Gold', color: '#E8B53A' },
+    platinum: { label: 'Platinum', color: '#5FC9C0' },
+    diamond: { label: 'Diamond', color: '#7DA7FF' },
+    crown: { label: 'Crown', color: '#C98BFF' },
+    ace: { label: 'Ace', color: '#FF7A59' },
+    conqueror: { label: 'Conqueror', color: '#E8483B' },
+};
+
+export interface PlayerStats {
+    /** Kills per death. */
+    kd?: number;
+    wins?: number;
+    /** Average damage per match. */
+    damage?: number;
+}
+
+/** Everything printed on a card besides the image. Only the outfit is required. */
+export interface PlayerCardDetails {
+    outfit: string;
+    map?: string;
+    /** This card's own caption, which takes precedence over the player name. */
+    title?: string;
+    playerName?: string;
+    rank?: RankTier;
+    stats?: PlayerStats;
+    frame?: PlayerCardFrame;
+}
+
+/** Where to draw a card: its centre point, width and rotation in radians. */
+export interface CardPlacement {
+    centerX: number;
+    centerY: number;
+    width: number;
+    rotation: number;
+}
+
+/**
+ * Works out a card's caption: its own title, else the player name, else the outfit,
+ * with the outfit and map underneath whichever isn't already the title.
+ * @param details What's printed on the card.
+ * @returns The title, and the subtitle or null if there's nothing to add.
+ */
+export function getCardHeading(details: PlayerCardDetails): { title: string; subtitle: string | null } {
+    const title = details.title?.trim() || details.playerName?.trim() || details.outfit;
+    const parts = [title === details.outfit ? null : details.outfit, details.map].filter((part): part is string => !!part);
+    return { title, subtitle: parts.length > 0 ? parts.join(' · ') : null };
+}
+
+interface FrameDesign {
+    label: string;
+    /** Colour for the card title when it is a name or custom caption. */
+    accent: string;
+    /** Colour for the outfit and stat labels. */
+    muted: string;
+    /** The card's base, which casts the drop shadow. Drawn centred on the origin. */
+    fill: (ctx: CanvasRenderingContext2D, width: number, height: number) => string | CanvasGradient;
+    /** Borders and ornaments, drawn over the image. */
+    drawBorder: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+}
+
+export const PLAYER_CARD_FRAMES: Record<PlayerCardFrame, FrameDesign> = {
+    // The dark metallic card with a yellow edge that the app has always used
+    classic: {
+        label: 'Classic',
+        accent: '#F59E0B',
+        muted: '#A3A3A3',
+        fill: () => '#222',
+        drawBorder: (ctx, width, height) => {
+            ctx.strokeStyle = '#F59E0B';
+            ctx.lineWidth = width * 0.012;
+            ctx.strokeRect(-width / 2, -height / 2, width, height);
+        },
+    },
+    // Olive drab with stencilled corner brackets
+    tactical: {
+        label: 'Tactical',
+        accent: '#C8B27A',
+        muted: '#8F9479',
+        fill: (ctx, width, height) => {
+            const gradient = ctx.createLinearGradient(0, -height / 2, 0, height / 2);
+            gradient.addColorStop(0, '#2F3326');
+            gradient.addColorStop(1, '#1E2119');
+            return gradient;
+        },
+        drawBorder: (ctx, width, height) => {
+            const inset = width * 0.018;
+            const arm = width * 0.12;
+            const left = -width / 2 + inset;
+            const top = -height / 2 + inset;
+            const right = width / 2 - inset;
+            const bottom = height / 2 - inset;
+
+            ctx.strokeStyle = 'rgba(200, 178, 122, 0.35)';
+            ctx.lineWidth = width * 0.004;
+            ctx.strokeRect(left, top, right - left, bottom - top);
+
+            ctx.strokeStyle = '#C8B27A';
+            ctx.lineWidth = width * 0.016;
+            ctx.lineCap = 'square';
+            [[left, top, 1, 1], [right, top, -1, 1], [left, bottom, 1, -1], [right, bottom, -1, -1]].forEach(([x, y, dx, dy]) => {
+                ctx.beginPath();
+                ctx.moveTo(x, y + dy * arm);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x + dx * arm, y);
+                ctx.stroke();
+            });
+        },
+    },
+    // Black with a double gold edge
+    elite: {
+        label: 'Elite',
+        accent: '#F5D77A',
+        muted: '#B8A36A',
+        fill: (ctx, width, height) => {
+            const gradient = ctx.createRadialGradient(0, 0, width * 0.1, 0, 0, height * 0.75);
+            gradient.addColorStop(0, '#1C1A14');
+            gradient.addColorStop(1, '#050505');
+            return gradient;
+        },
+        drawBorder: (ctx, width, height) => {
+            const gold = ctx.createLinearGradient(-width / 2, -height / 2, width / 2, height / 2);
+            gold.addColorStop(0, '#F5D77A');
+            gold.addColorStop(0.5, '#B8860B');
+            gold.addColorStop(1, '#F5D77A');
+
+            ctx.strokeStyle = gold;
+            ctx.lineWidth = width * 0.02;
+            ctx.strokeRect(-width / 2, -height / 2, width, height);
+
+            const inset = width * 0.03;
+            ctx.lineWidth = width * 0.004;
+            ctx.strokeRect(-width / 2 + inset, -height / 2 + inset, width - inset * 2, height - inset * 2);
+        },
+    },
+};
+
+/**
+ * Shrinks the current font until the text fits, truncating with an ellipsis as a last resort.
+ * @returns The text to draw.
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, fontSize: number, fontFamily: string): string {
+    const minFontSize = fontSize * 0.6;
+    let size = fontSize;
+    ctx.font = `${size}px ${fontFamily}`;
+    while (ctx.measureText(text).width > maxWidth && size > minFontSize) {
+        size -= 2;
+        ctx.font = `${size}px ${fontFamily}`;
+    }
+    if (ctx.measureText(text).width <= maxWidth) return text;
+
+    let truncated = text;
+    while (truncated.length > 1 && ctx.measureText(`${truncated}…`).width > maxWidth) {
+        truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trimEnd()}…`;
+}
+
+/** Draws a rounded pill of text, anchored at its left or right edge. */
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, height: number, align: 'left' | 'right', color: string) {
+    ctx.font = `${height * 0.8}px 'Teko', sans-serif`;
+    const padding = height * 0.35;
+    const width = ctx.measureText(text).width + padding * 2;
+    const left = align === 'left' ? x : x - width;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.beginPath();
+    ctx.roundRect(left, y, width, height, height / 2);
+    ctx.fill();
+
+    ctx.fillStyle = color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, left + width / 2, y + height * 0.56);
+}
+
+/** Draws a hexagonal rank badge with the tier's name beside it. */
+function drawRankBadge(ctx: CanvasRenderingContext2D, rank: RankTier, x: number, y: number, radius: number) {
+    const { label, color } = RANK_TIERS[rank];
+
+    // The label sits behind the badge's right edge, so draw it first
+    drawLabel(ctx, label.toUpperCase(), x + radius * 0.6, y - radius * 0.45, radius * 0.9, 'left', color);
+
+    ctx.beginPath();
+    for (let i = 0; i < 6; i++) {
+        const angle = Math.PI / 6 + (i * Math.PI) / 3;
+        ctx.lineTo(x + radius * Math.cos(angle), y + radius * Math.sin(angle));
+    }
+    ctx.closePath();
+    const gradient = ctx.createLinearGradient(x, y - radius, x, y + radius);
+    gradient.addColorStop(0, '#FFFFFF');
+    gradient.addColorStop(0.35, color);
+    gradient.addColorStop(1, '#111111');
+    ctx.fillStyle = gradient;
+    ctx.fill();
+    ctx.strokeStyle = '#111';
+    ctx.lineWidth = radius * 0.12;
+    ctx.stroke();
+
+    // A chevron, doubled for the top tiers
+    const chevrons = rank === 'ace' || rank === 'conqueror' ? 2 : 1;
+    ctx.strokeStyle = '#FFF';
+    ctx.lineWidth = radius * 0.14;
+    ctx.lineJoin = 'round';
+    for (let i = 0; i < chevrons; i++) {
+        const offset = (i - (chevrons - 1) / 2) * radius * 0.32;
+        ctx.beginPath();
+        ctx.moveTo(x - radius * 0.4, y + offset + radius * 0.15);
+        ctx.lineTo(x, y + offset - radius * 0.2);
+        ctx.lineTo(x + radius * 0.4, y + offset + radius * 0.15);
+        ctx.stroke();
+    }
+}
+
+const STAT_FIELDS: { key: keyof PlayerStats; label: string; format: (value: number) => string }[] = [
+    { key: 'kd', label: 'K/D', format: value => value.toFixed(2) },
+    { key: 'wins', label: 'WINS', format: value => Math.round(value).toLocaleString() },
+    { key: 'damage', label: 'DAMAGE', format: value => Math.round(value).toLocaleString() },
+];
+
+/** Draws the stats that were filled in as a strip along the bottom of the image. */
+function drawStats(ctx: CanvasRenderingContext2D, stats: PlayerStats, left: number, bottom: number, width: number, design: FrameDesign) {
+    const fields = STAT_FIELDS.filter(field => typeof stats[field.key] === 'number' && Number.isFinite(stats[field.key]));
+    if (fields.length === 0) return;
+
+    const height = width * 0.15;
+    const top = bottom - height;
+    const gradient = ctx.createLinearGradient(0, top, 0, bottom);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(0.35, 'rgba(0, 0, 0, 0.7)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.85)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(left, top, width, height);
+
+    const columnWidth = width / fields.length;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    fields.forEach((field, index) => {
+        const x = left + columnWidth * (index + 0.5);
+        ctx.fillStyle = '#FFF';
+        ctx.font = `${width * 0.075}px 'Teko', sans-serif`;
+        ctx.fillText(field.format(stats[field.key]!), x, top + height * 0.52);
+        ctx.fillStyle = design.muted;
+        ctx.font = `${width * 0.032}px 'Roboto', sans-serif`;
+        ctx.fillText(field.label, x, top + height * 0.85);
+    });
+}
+
+interface DrawCardOptions {
+    /** Draw the drop shadow (off when the card fills its own canvas). */
+    shadow?: boolean;
+}
+
+/**
+ * Draws a single player card (frame, image, caption, rank and stats) at the given placement.
+ */
+export function drawPlayerCard(ctx: CanvasRenderingContext2D, img: ImageBitmap, details: PlayerCardDetails, placement: CardPlacement, options: DrawCardOptions = {}) {
+    const design = PLAYER_CARD_FRAMES[details.frame ?? 'classic'];
+    const cardWidth = placement.width;
+    const cardHeight = cardWidth * CARD_ASPECT_RATIO;
+    const imageWidth = cardWidth * 0.9;
+    const imageHeight = imageWidth * 1.1;
+    const imageLeft = -imageWidth / 2;
+    const imageTop = -cardHeight / 2 + (cardWidth - imageWidth) / 2.5;
+
+    ctx.save();
+
+    // Translate context to the center of the card for rotation
+    ctx.translate(placement.centerX, placement.centerY);
+    ctx.rotate(placement.rotation);
+
+    if (options.shadow ?? true) {
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
+        ctx.shadowBlur = cardWidth * 0.075;
+        ctx.shadowOffsetX = cardWidth * 0.022;
+        ctx.shadowOffsetY = cardWidth * 0.03;
+    }
+    ctx.fillStyle = design.fill(ctx, cardWidth, cardHeight);
+    ctx.fillRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight);
+    ctx.shadowColor = 'transparent';
+
+    // Fill the image area, cropping whatever overflows it
+    const scale = Math.max(imageWidth / img.width, imageHeight / img.height);
+    const drawWidth = img.width * scale;
+    const drawHeight = img.height * scale;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(imageLeft, imageTop, imageWidth, imageHeight);
+    ctx.clip();
+    ctx.drawImage(img, -drawWidth / 2, imageTop + (imageHeight - drawHeight) / 2, drawWidth, drawHeight);
+
+    const edge = cardWidth * 0.035;
+    if (details.stats) {
+        drawStats(ctx, details.stats, imageLeft, imageTop + imageHeight, imageWidth, design);
+    }
+    if (details.rank) {
+        const radius = cardWidth * 0.065;
+        drawRankBadge(ctx, details.rank, imageLeft + edge + radius, imageTop + edge + radius, radius);
+    }
+    ctx.restore();
+
+    design.drawBorder(ctx, cardWidth, cardHeight);
+
+    const captionTop = imageTop + imageHeight;
+    const captionHeight = cardHeight / 2 - captionTop;
+    const { title, subtitle } = getCardHeading(details);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    if (subtitle) {
+        ctx.fillStyle = design.accent;
+        const titleText = fitText(ctx, title, imageWidth, cardWidth * 0.1, `'Teko', sans-serif`);
+        ctx.fillText(titleText, 0, captionTop + captionHeight * 0.4);
+        ctx.fillStyle = design.muted;
+        const subtitleText = fitText(ctx, subtitle, imageWidth, cardWidth * 0.045, `'Roboto', sans-serif`);
+        ctx.fillText(subtitleText, 0, captionTop + captionHeight * 0.76);
+    } else {
+        ctx.fillStyle = '#F0F0F0';
+        const titleText = fitText(ctx, title, imageWidth, cardWidth * 0.12, `'Teko', sans-serif`);
+        ctx.fillText(titleText, 0, captionTop + captionHeight / 2);
+    }
+
+    ctx.restore(); // Restore context to pre-transformation state
+}
+
+/**
+ * Renders a single card on its own canvas, sized so the card image is drawn at its full resolution.
+ * @param img The card image.
+ * @param details What to print on the card.
+ * @returns A canvas containing just the card.
+ */
+export function renderPlayerCardCanvas(img: ImageBitmap, details: PlayerCardDetails): HTMLCanvasElement {
+    // The image area is 0.9 card widths wide and 0.99 card widths tall (see drawPlayerCard)
+    const cardWidth = Math.ceil(Math.max(img.width / 0.9, img.height / 0.99));
+    const cardHeight = Math.ceil(cardWidth * CARD_ASPECT_RATIO);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = cardWidth;
+    canvas.height = cardHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    drawPlayerCard(ctx, img, details, { centerX: cardWidth / 2, centerY: cardHeight / 2, width: cardWidth, rotation: 0 }, { shadow: false });
+    return canvas;
+}
+
+/**
+ * Composes a generated image into a finished player card, e.g. for downloading.
+ * @param imageUrl The generated image, usually an object URL from the image store.
+ * @param details What to print on the card.
+ * @returns A promise that resolves to the card as a JPEG.
+ */
+export async function renderPlayerCard(imageUrl: string, details: PlayerCardDetails): Promise<Blob> {
+    const img = await getImageStore().decode(imageUrl);
+    try {
+        return await canvasToBlob(renderPlayerCardCanvas(img, details), 'image/jpeg', 0.92);
+    } finally {
+        img.close();
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { findEntry } from './catalog';
+import type { Catalog } from './catalog';
+import type { GenerationItem, PromptTier, StylePreferences, SubjectDescription } from '../types';
+
+/** Everything a template can draw on, resolved up front so templates stay pure. */
+export interface PromptContext {
+    item: GenerationItem;
+    description: SubjectDescription;
+    /** Extra detail from the catalog about what the outfit looks like. */
+    outfitDetails?: string;
+    /** What the map looks like, from the catalog. */
+    mapDescription?: string;
+}
+
+/** One member of a squad shot, in the order their photos are sent. */
+export interface SquadMemberContext {
+    outfit: string;
+    outfitDetails?: string;
+}
+
+/** Everything the squad shot templates draw on. */
+export interface SquadPromptContext {
+    members: SquadMemberContext[];
+    map: string;
+    mapDescription?: string;
+    scenario: string;
+}
+
+export interface PromptTemplate<Context = PromptContext> {
+    tier: PromptTier;
+    /** Bumped whenever the wording changes, so a result can be traced to the text that made it. */
+    version: number;
+    render: (context: Context) => string;
+}
+
+export interface RenderedPrompt {
+    tier: PromptTier;
+    version: number;
+    text: string;
+}
+
+/** Most to least detailed. Each tier drops the parts most likely to trip a safety filter. */
+export const PROMPT_TIERS: PromptTier[] = ['full-scene', 'simplified-scene', 'outfit-only'];
+
+export const DEFAULT_FALLBACK_CHAIN: PromptTier[] = PROMPT_TIERS;
+
+const describeMap = (map: string, mapDescription?: string): string =>
+    mapDescription || `the battle royale map "${map}"`;
+
+export const PROMPT_TEMPLATES: Record<PromptTier, PromptTemplate> = {
+    'full-scene': {
+        tier: 'full-scene',
+        version: 1,
+        render: (context) => {
+            const { item, description, outfitDetails } = context;
+            return `
+Photo edit request: Change the person in the photo into a ${description} video game character.
+- **Outfit:** Dress them in the following PUBG outfit: "${item.character}".${outfitDetails ? ` ${outfitDetails}` : ''}
+- **Face:** Their face must be perfectly preserved from the original photo and must be fully visible. Do not add any masks, helmets, or face coverings unless specified in the outfit description.
+- **Action:** Place them in the following scene: "${item.scenario}".
+- **Location:** The background should be ${describeMap(item.map, context.mapDescription)}.
+- **Style:** The final image should have the high-quality, realistic style of a modern video game.
+`;
+        },
+    },
+    // No action scene: combat scenarios are the usual reason the full prompt is refused.
+    'simplified-scene': {
+        tier: 'simplified-scene',
+        version: 1,
+        render: (context) => {
+            const { item, description, outfitDetails } = context;
+            return `Edit this photo so the ${description} in it looks like a video game character wearing the PUBG outfit "${item.character}".${outfitDetails ? ` ${outfitDetails}` : ''} Keep their face exactly as it is in the photo and fully visible, with no mask or helmet. Show them standing calmly, with ${describeMap(item.map, context.mapDescription)} in the background. Use a realistic, modern video game style.`;
+        },
+    },
+    'outfit-only': {
+        tier: 'outfit-only',
+        version: 1,
+        render: ({ item }) => `Place the person from the photo into a video game world. Dress them in the PUBG outfit named "${item.character}". It is very important that their face is clearly visible and not covered by a helmet or mask. Keep all their original facial features. The background should be a scene from a popular online multiplayer game. The final image should look like a realistic photograph.`,
+    },
+};
+
+// Photos are referred to by position, since that's the only link between a photo and its outfit
+const describeSquad = (members: SquadMemberContext[], withDetails: boolean): string => members
+    .map((member, index) => `- Person ${index + 1} (from photo ${index + 1}) wears the PUBG outfit "${member.outfit}".${withDetails && member.outfitDetails ? ` ${member.outfitDetails}` : ''}`)
+    .join('\n');
+
+export const SQUAD_PROMPT_TEMPLATES: Record<PromptTier, PromptTemplate<SquadPromptContext>> = {
+    'full-scene': {
+        tier: 'full-scene',
+        version: 1,
+        render: (context) => `
+Photo edit request: Combine the ${context.members.length} people from the ${context.members.length} photos into one group shot of a video game squad.
+${describeSquad(context.members, true)}
+- **Faces:** Every person's face must be perfectly preserved from their own photo and fully visible. Do not add any masks, helmets, or face coverings unless specified in an outfit description.
+- **Action:** The squad is together in the following scene: "${context.scenario}".
+- **Location:** The background should be ${describeMap(context.map, context.mapDescription)}.
+- **Style:** Everyone must be in the same shot, with the high-quality, realistic style of a modern video game.
+`,
+    },
+    'simplified-scene': {
+        tier: 'simplified-scene',
+        version: 1,
+        render: (context) => `Combine the people from these ${context.members.length} photos into one group shot of video game characters standing together as a squad.
+${describeSquad(context.members, true)}
+Keep every face exactly as it is in its photo and fully visible, with no masks or helmets. Put ${describeMap(context.map, context.mapDescription)} in the background. Use a realistic, modern video game style.`,
+    },
+    'outfit-only': {
+        tier: 'outfit-only',
+        version: 1,
+        render: (context) => `Place the people from these ${context.members.length} photos together in one video game group photo.
+${describeSquad(context.members, false)}
+It is very important that every face is clearly visible and not covered by a helmet or mask. Keep all their original facial features. The background should be a scene from a popular online multiplayer game. The final image should look like a realistic photograph.`,
+    },
+};
+
+/**
+ * Collects what the templates need for one card.
+ * @param item The outfit, map and scenario for the card.
+ * @param preferences How the person should be described.
+ * @param catalog The catalog to look up outfit and map descriptions in.
+ * @returns The context to render prompts from.
+ */
+export function buildPromptContext(item: GenerationItem, preferences: StylePreferences, catalog: Catalog): PromptContext {
+    return {
+        item,
+        description: preferences.description,
+        outfitDetails: findEntry(catalog, 'outfits', item.character)?.description,
+        mapDescription: findEntry(catalog, 'maps', item.map)?.description,
+    };
+}
+
+/**
+ * Renders one tier's template.
+ * @param tier Which template to use.
+ * @param context The card to describe.
+ * @returns The prompt text, tagged with the template it came from.
+ */
+export function renderPrompt(tier: PromptTier, context: PromptContext): RenderedPrompt {
+    const template = PROMPT_TEMPLATES[tier];
+    return { tier, version: template.version, text: template.render(context) };
+}
+
+/**
+ * Collects what the squad templates need for a group shot.
+ * @param shot The squad shot's item, for its map and scenario.
+ * @param memberItems Each member's own card, in the order their photos are sent.
+ * @param catalog The catalog to look up outfit and map descriptions in.
+ * @returns The context to render squad prompts from.
+ */
+export function buildSquadPromptContext(shot: GenerationItem, memberItems: GenerationItem[], catalog: Catalog): SquadPromptContext {
+    return {
+        members: memberItems.map(item => ({
+            outfit: item.character,
+            outfitDetails: findEntry(catalog, 'outfits', item.character)?.description,
+        })),
+        map: shot.map,
+        mapDescription: findEntry(catalog, 'maps', shot.map)?.description,
+        scenario: shot.scenario,
+    };
+}
+
+/**
+ * Renders one tier's squad shot template.
+ * @param tier Which template to use.
+ * @param context The squad to describe.
+ * @returns The prompt text, tagged with the template it came from.
+ */
+export function renderSquadPrompt(tier: PromptTier, context: SquadPromptContext): RenderedPrompt {
+    const template = SQUAD_PROMPT_TEMPLATES[tier];
+    return { tier, version: template.version, text: template.render(context) };
+}
+
+/**
+ * Parses a fallback chain from a comma-separated list of tiers, e.g. "full-scene,outfit-only".
+ * @param value The list to parse.
+ * @returns The tiers in order, or null if the list is empty or names an unknown tier.
+ */
+export function parseFallbackChain(value: string | undefined): PromptTier[] | null {
+    const tiers = (value ?? '').split(',').map(tier => tier.trim()).filter(Boolean);
+    if (tiers.length === 0 || !tiers.every(tier => (PROMPT_TIERS as string[]).includes(tier))) {
+        return null;
+    }
+    return Array.from(new Set(tiers)) as PromptTier[];
+}
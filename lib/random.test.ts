@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createRng, hashString, pickRandom, shuffleArray } from './random';
+
+const draw = (seed: number, count: number): number[] => {
+    const rng = createRng(seed);
+    return Array.from({ length: count }, () => rng());
+};
+
+describe('createRng', () => {
+    it('gives the same sequence for the same seed', () => {
+        expect(draw(1234, 20)).toEqual(draw(1234, 20));
+    });
+
+    it('gives a different sequence for a different seed', () => {
+        expect(draw(1234, 20)).not.toEqual(draw(1235, 20));
+    });
+
+    it('stays in [0, 1)', () => {
+        for (const value of draw(42, 1000)) {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+
+    it('treats seeds as unsigned 32-bit integers', () => {
+        expect(draw(-1, 5)).toEqual(draw(0xFFFFFFFF, 5));
+    });
+
+    it('makes shuffles and picks reproducible', () => {
+        const items = Array.from({ length: 10 }, (_, i) => i);
+        expect(shuffleArray(items, createRng(7))).toEqual(shuffleArray(items, createRng(7)));
+        expect(pickRandom(items, createRng(7))).toBe(pickRandom(items, createRng(7)));
+        expect(items).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+});
+
+describe('hashString', () => {
+    it('hashes the same text to the same seed', () => {
+        expect(hashString('0A1203-1B0207')).toBe(hashString('0A1203-1B0207'));
+        expect(hashString('0A1203-1B0207')).not.toBe(hashString('0A1203-1B0208'));
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A source of random numbers in [0, 1), like `Math.random`. */
+export type Rng = () => number;
+
+/**
+ * Creates a fresh seed for a new session.
+ * @returns A random 32-bit unsigned integer.
+ */
+export function createSeed(): number {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Creates a seeded random number generator (mulberry32). The same seed always gives the
+ * same sequence, so a loadout or album layout can be reproduced from its seed.
+ * @param seed Any 32-bit integer.
+ * @returns The generator.
+ */
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Hashes a string to a seed (FNV-1a), e.g. to derive a layout seed from a loadout code.
+ * @param text The string to hash.
+ * @returns A 32-bit unsigned integer.
+ */
+export function hashString(text: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Shuffles an array (Fisher-Yates) without changing the original.
+ * @param array The items to shuffle.
+ * @param rng The random number generator to draw from.
+ * @returns A shuffled copy.
+ */
+export function shuffleArray<T>(array: T[], rng: Rng): T[] {
+    const newArray = [...array];
+    for (let i = newArray.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+    }
+    return newArray;
+}
+
+/**
+ * Picks one item at random.
+ * @param array The items to pick from; must not be empty.
+ * @param rng The random number generator to draw from.
+ * @returns The picked item.
+ */
+export function pickRandom<T>(array: T[], rng: Rng): T {
+    return array[Math.floor(rng() * array.length)];
+}
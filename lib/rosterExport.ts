@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { strToU8, zipSync } from 'fflate';
+import type { Zippable } from 'fflate';
+import { createAlbumPages } from './albumUtils';
+import type { AlbumOptions } from './albumUtils';
+import { encodeLoadoutCode } from './loadoutCode';
+import { renderPlayerCard } from './playerCard';
+import type { PlayerCardDetails, PlayerCardFrame } from './playerCard';
+import { hashString } from './random';
+import { getAlbumFilename, getCardFilename } from './shareUtils';
+import type { GenerationItem, PromptTier, RosterLoadoutMode, RosterMember } from '../types';
+
+/** One card in a member's export: its image if it finished, otherwise why it didn't. */
+export interface RosterExportCard {
+    item: GenerationItem;
+    url?: string;
+    promptTier?: PromptTier;
+    error?: string;
+}
+
+export interface RosterExportMember {
+    name: string;
+    cards: RosterExportCard[];
+}
+
+export interface RosterExportOptions {
+    loadoutMode: RosterLoadoutMode;
+    album: AlbumOptions;
+    /** The frame every card is drawn in, with the member's name on it. */
+    frame: PlayerCardFrame;
+    /** Called after each member's folder is ready. */
+    onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Works out what to call a roster member: their name if one was typed, otherwise the photo's filename.
+ * @param member The member.
+ * @param index Their position in the roster, for a last-resort "Player N".
+ * @returns The display name.
+ */
+export function getRosterMemberName(member: RosterMember, index: number): string {
+    return member.name.trim() || member.fileName || `Player ${index + 1}`;
+}
+
+/**
+ * Builds a member's folder name. The number keeps folders in roster order and unique
+ * even when two members share a name.
+ * @param name The member's display name.
+ * @param index Their position in the roster.
+ * @param count The roster size, to pad the number to.
+ * @returns A folder name like "03 - Shroud".
+ */
+export function getRosterFolderName(name: string, index: number, count: number): string {
+    const number = String(index + 1).padStart(String(count).length, '0');
+    const safeName = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '').replace(/\s+/g, ' ').trim().slice(0, 60);
+    return safeName ? `${number} - ${safeName}` : number;
+}
+
+async function blobToBytes(blob: Blob): Promise<Uint8Array> {
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Packs a roster batch into a ZIP with one folder per member, holding their player cards,
+ * their album pages and a metadata.json describing every card.
+ * @param members Each member's name and cards, in roster order.
+ * @param options The loadout mode to record, the album options, the card frame and a progress callback.
+ * @returns A promise that resolves to the ZIP file.
+ */
+export async function createRosterZip(members: RosterExportMember[], options: RosterExportOptions): Promise<Blob> {
+    const files: Zippable = {};
+    const exportedAt = new Date().toISOString();
+
+    for (let index = 0; index < members.length; index++) {
+        const member = members[index];
+        const folder: Zippable = {};
+        const albumImages: Record<string, string> = {};
+        const albumCards: Record<string, PlayerCardDetails> = {};
+        const loadoutCode = encodeLoadoutCode(member.cards.map(card => card.item));
+
+        const cards = [];
+        for (const card of member.cards) {
+            const filename = card.url ? getCardFilename(card.item.character) : null;
+            if (card.url && filename) {
+                const details: PlayerCardDetails = { outfit: card.item.character, map: card.item.map, playerName: member.name, frame: options.frame };
+                // The images are already compressed, so storing them is as small as deflating and much faster
+                folder[filename] = [await blobToBytes(await renderPlayerCard(card.url, details)), { level: 0 }];
+                albumImages[card.item.character] = card.url;
+                albumCards[card.item.character] = details;
+            }
+            cards.push({
+                outfit: card.item.character,
+                map: card.item.map,
+                scenario: card.item.scenario,
+                file: filename,
+                promptTier: card.promptTier ?? null,
+                error: card.error ?? null,
+            });
+        }
+
+        let albumFiles: string[] = [];
+        if (Object.keys(albumImages).length > 0) {
+            const pages = await createAlbumPages(albumImages, { ...options.album, cards: albumCards, seed: hashString(loadoutCode) });
+            albumFiles = pages.map((_, pageIndex) => getAlbumFilename(pageIndex, pages.length));
+            for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+                folder[albumFiles[pageIndex]] = [await blobToBytes(pages[pageIndex]), { level: 0 }];
+            }
+        }
+
+        folder['metadata.json'] = strToU8(JSON.stringify({
+            name: member.name,
+            loadout: options.loadoutMode,
+            loadoutCode,
+            exportedAt,
+            album: albumFiles,
+            cards,
+        }, null, 2));
+
+        files[getRosterFolderName(member.name, index, members.length)] = folder;
+        options.onProgress?.(index + 1, members.length);
+    }
+
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Builds the download filename for a player card.
+ * @param name The card's title, or the outfit it was generated for.
+ * @returns A filename like "pubg-lobby-ghillie-suit-for-stealthy-camouflage.jpg".
+ */
+export function getCardFilename(name: string): string {
+    // Titles are free text, so keep only letters and digits (in any script)
+    const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+    return `pubg-lobby-${slug || 'card'}.jpg`;
+}
+
+/**
+ * Triggers a browser download for a URL (data URL, object URL or same-origin link).
+ * @param url The URL to download.
+ * @param filename The suggested filename.
+ */
+export function downloadUrl(url: string, filename: string) {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
+
+/**
+ * Downloads a Blob by handing it to the browser through a temporary object URL.
+ * @param blob The data to download.
+ * @param filename The suggested filename.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, filename);
+    // Give the browser a moment to start the download before releasing the URL.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Converts a data URL into a Blob.
+ * @param dataUrl The data URL to convert.
+ * @returns A promise that resolves to the Blob.
+ */
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+    const response = await fetch(dataUrl);
+    return response.blob();
+}
+
+/**
+ * Reads a Blob into a data URL.
+ * @param blob The Blob to read.
+ * @returns A promise that resolves to a base64 data URL.
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read image data.'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+interface ShareImageOptions {
+    filename: string;
+    title: string;
+    text: string;
+    /** Shown when the browser can't share files, e.g. "Please download the album to share it manually." */
+    fallbackMessage: string;
+}
+
+/**
+ * Shares one or more images through the Web Share API, falling back to a pre-filled
+ * post on X for browsers that can't share files (e.g., desktop Firefox).
+ * @param images The images to share, with their filenames.
+ * @param options The share sheet contents and fallback message.
+ */
+export async function shareImages(images: { blob: Blob; filename: string }[], options: Omit<ShareImageOptions, 'filename'>) {
+    const { title, text, fallbackMessage } = options;
+    const files = images.map(({ blob, filename }) => new File([blob], filename, { type: blob.type }));
+
+    if (navigator.share && navigator.canShare({ files })) {
+        await navigator.share({ title, text, files });
+    } else {
+        const shareUrl = `https://x.com/intent/tweet?text=${encodeURIComponent(text)}`;
+        window.open(shareUrl, '_blank', 'noopener,noreferrer');
+        alert(`Your browser doesn't support sharing images directly. ${fallbackMessage}`);
+    }
+}
+
+/**
+ * Shares a single image; see `shareImages`.
+ * @param blob The image to share.
+ * @param options The filename, share sheet contents and fallback message.
+ */
+export async function shareImage(blob: Blob, options: ShareImageOptions) {
+    const { filename, ...shareOptions } = options;
+    await shareImages([{ blob, filename }], shareOptions);
+}
+
+/**
+ * Builds the download filename for an album page.
+ * @param pageIndex The zero-based page index.
+ * @param pageCount The total number of pages.
+ * @returns "pubg-lobby-album.jpg" for single-page albums, otherwise "pubg-lobby-album-page-N.jpg".
+ */
+export function getAlbumFilename(pageIndex: number, pageCount: number): string {
+    return pageCount > 1 ? `pubg-lobby-album-page-${pageIndex + 1}.jpg` : 'pubg-lobby-album.jpg';
+}
+
+/** The download filename for a roster batch's ZIP. */
+export const ROSTER_ZIP_FILENAME = 'pubg-lobby-roster.zip';
+
+/**
+ * Builds the share text for a single player card.
+ * @param character The outfit the card was generated for.
+ * @param title The card's custom title, e.g. a gamer tag.
+ * @returns The text to post alongside the image.
+ */
+export function getCardShareText(character: string, title?: string): string {
+    const subject = title ? `${title} just geared up` : 'Just geared up';
+    return `${subject} with the ${character} set in the PUBG Lobby! Check out my AI-generated player card. #PUBGLobby #GoogleAI #nanobanana`;
+}
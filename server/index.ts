@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import http from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createGeminiProvider } from '../services/geminiProvider';
+import type { InlineImage } from '../services/imageProvider';
+import { readApiError } from '../services/apiError';
+import { getRetryAfterSeconds } from '../services/retryAfter';
+import { createRateLimiter } from './rateLimiter';
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No .env.local file; rely on the process environment.
+}
+
+const API_KEY = process.env.GEMINI_API_KEY;
+
+if (!API_KEY) {
+    throw new Error("GEMINI_API_KEY environment variable is not set");
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 10 * 1024 * 1024;
+const MAX_PROMPT_LENGTH = 4000;
+// A squad shot sends one photo per member
+const MAX_IMAGES_PER_REQUEST = 4;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+const provider = createGeminiProvider({ apiKey: API_KEY });
+
+const rateLimiter = createRateLimiter({
+    capacity: Number(process.env.RATE_LIMIT_BURST) || 12,
+    refillPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 6,
+});
+
+
+// --- Helper Functions ---
+
+/** Thrown for problems with the incoming request; mapped directly to an HTTP response. */
+class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * Responds with a JSON body. Errors use the same `{ error: { code, message } }` shape
+ * as the Gemini API so the browser's retry logic can read them unchanged.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+    sendJson(res, status, { error: { code: status, message } }, headers);
+}
+
+function getClientIp(req: IncomingMessage): string {
+    if (TRUST_PROXY) {
+        const forwardedFor = req.headers['x-forwarded-for'];
+        const firstHop = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0]?.trim();
+        if (firstHop) return firstHop;
+    }
+    return req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * Reads and parses a JSON request body, rejecting anything larger than MAX_BODY_BYTES.
+ * An oversized body is left unread but the request stays open, so the 413 can still be sent.
+ * @param req The incoming request.
+ * @returns The parsed JSON body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > MAX_BODY_BYTES) {
+        throw new HttpError(413, `Request body exceeds the ${MAX_BODY_BYTES} byte limit.`);
+    }
+
+    // Listens for chunks rather than iterating, since leaving a `for await` early destroys the request
+    const chunks = await new Promise<Buffer[]>((resolve, reject) => {
+        const received: Buffer[] = [];
+        let receivedBytes = 0;
+        const onData = (chunk: Buffer) => {
+            receivedBytes += chunk.length;
+            if (receivedBytes > MAX_BODY_BYTES) {
+                req.off('data', onData);
+                req.pause();
+                reject(new HttpError(413, `Request body exceeds the ${MAX_BODY_BYTES} byte limit.`));
+                return;
+            }
+            received.push(chunk);
+        };
+        req.on('data', onData);
+        req.once('end', () => resolve(received));
+        req.once('error', reject);
+    });
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON.');
+    }
+}
+
+function isInlineImage(image: Partial<InlineImage> | undefined): image is InlineImage {
+    return !!image && typeof image.mimeType === 'string' && /^image\/[\w.+-]+$/.test(image.mimeType) && typeof image.data === 'string' && !!image.data;
+}
+
+function parsePrompt(prompt: unknown): string {
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+        throw new HttpError(400, "Expected 'prompt' to be a non-empty string.");
+    }
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+        throw new HttpError(400, `Prompt exceeds the ${MAX_PROMPT_LENGTH} character limit.`);
+    }
+    return prompt;
+}
+
+/**
+ * Validates the `{ image, prompt }` payload of the analyze route.
+ * @param body The parsed request body.
+ * @returns The validated image and prompt.
+ */
+function parseModelRequest(body: unknown): { image: InlineImage; prompt: string } {
+    const { image, prompt } = (body ?? {}) as { image?: Partial<InlineImage>; prompt?: unknown };
+
+    if (!isInlineImage(image)) {
+        throw new HttpError(400, "Expected 'image' to be { mimeType: 'image/...', data: '<base64>' }.");
+    }
+    return { image: { mimeType: image.mimeType, data: image.data }, prompt: parsePrompt(prompt) };
+}
+
+/**
+ * Validates the `{ images, prompt }` payload of the generate route. A single `image` is
+ * still accepted from clients that predate squad shots.
+ * @param body The parsed request body.
+ * @returns The validated images and prompt.
+ */
+function parseGenerateRequest(body: unknown): { images: InlineImage[]; prompt: string } {
+    const { images, image, prompt } = (body ?? {}) as { images?: unknown; image?: Partial<InlineImage>; prompt?: unknown };
+    if (images === undefined && image !== undefined) {
+        return { images: [parseModelRequest(body).image], prompt: parsePrompt(prompt) };
+    }
+
+    if (!Array.isArray(images) || images.length === 0 || images.length > MAX_IMAGES_PER_REQUEST || !images.every(isInlineImage)) {
+        throw new HttpError(400, `Expected 'images' to be 1 to ${MAX_IMAGES_PER_REQUEST} items of { mimeType: 'image/...', data: '<base64>' }.`);
+    }
+    return {
+        images: images.map((item: InlineImage) => ({ mimeType: item.mimeType, data: item.data })),
+        prompt: parsePrompt(prompt),
+    };
+}
+
+
+// --- Routes ---
+
+const routes: Record<string, (body: unknown, signal: AbortSignal) => Promise<unknown>> = {
+    '/api/generate': async (body, signal) => {
+        const { images, prompt } = parseGenerateRequest(body);
+        return provider.generateImage(images, prompt, signal);
+    },
+    '/api/analyze': async (body, signal) => {
+        const { image, prompt } = parseModelRequest(body);
+        return { text: await provider.generateText(image, prompt, signal) };
+    },
+};
+
+const server = http.createServer(async (req, res) => {
+    if (ALLOWED_ORIGIN) {
+        res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (req.method === 'GET' && pathname === '/api/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+
+    const handler = routes[pathname];
+    if (!handler) {
+        sendError(res, 404, `No route for ${req.method} ${pathname}.`);
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendError(res, 405, `Use POST for ${pathname}.`, { Allow: 'POST' });
+        return;
+    }
+
+    const clientIp = getClientIp(req);
+    const limit = rateLimiter(clientIp);
+    if (!limit.allowed) {
+        sendError(res, 429, 'Too many requests. Please slow down and try again shortly.', {
+            'Retry-After': String(limit.retryAfterSeconds),
+        });
+        req.resume(); // Drain the body so the connection can be reused.
+        return;
+    }
+
+    // Stop waiting on Gemini if the browser cancels the request
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        const body = await readJsonBody(req);
+        sendJson(res, 200, await handler(body, controller.signal));
+    } catch (error) {
+        if (controller.signal.aborted) {
+            return; // Nobody is listening for the response any more.
+        }
+        if (error instanceof HttpError) {
+            if (error.status === 413) {
+                // Close the connection once the response is out, rather than reading the rest of the body
+                res.once('finish', () => req.destroy());
+                sendError(res, error.status, error.message, { Connection: 'close' });
+                return;
+            }
+            sendError(res, error.status, error.message);
+            return;
+        }
+
+        // Pass Gemini's own status through so the client can decide whether to retry.
+        const { status, message } = readApiError(error);
+        console.error(`Gemini call for ${pathname} from ${clientIp} failed:`, error);
+        // Forward Gemini's RetryInfo on rate limits so the browser knows how long to back off.
+        const retryAfterSeconds = status === 429 ? getRetryAfterSeconds(error) : null;
+        sendError(
+            res,
+            status !== undefined && status >= 400 && status < 600 ? status : 500,
+            message,
+            retryAfterSeconds !== null ? { 'Retry-After': String(Math.ceil(retryAfterSeconds)) } : {},
+        );
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`PUBG Lobby API server listening on http://localhost:${PORT}`);
+});
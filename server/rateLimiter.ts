@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimiterOptions {
+    /** Maximum number of requests a client can burst. */
+    capacity: number;
+    /** Tokens restored per client, per minute. */
+    refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Seconds until the next request would be allowed (0 when allowed). */
+    retryAfterSeconds: number;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Creates an in-memory, per-key token bucket rate limiter.
+ * @param options The bucket capacity and refill rate.
+ * @returns A function that consumes a token for the given key (e.g. a client IP).
+ */
+export function createRateLimiter(options: RateLimiterOptions) {
+    const buckets = new Map<string, Bucket>();
+    const refillPerMs = options.refillPerMinute / 60_000;
+
+    // Periodically drop buckets that have fully refilled so the map doesn't grow forever.
+    const sweepInterval = setInterval(() => {
+        const now = Date.now();
+        for (const [key, bucket] of buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= options.capacity) {
+                buckets.delete(key);
+            }
+        }
+    }, 60_000);
+    sweepInterval.unref();
+
+    return function consume(key: string): RateLimitResult {
+        const now = Date.now();
+        const bucket = buckets.get(key) ?? { tokens: options.capacity, updatedAt: now };
+
+        bucket.tokens = Math.min(options.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+        buckets.set(key, bucket);
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return { allowed: true, retryAfterSeconds: 0 };
+        }
+
+        return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    };
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The parts of a provider error that the retry and classification logic look at. */
+export interface ApiErrorFields {
+    /** The HTTP status, from a `{ error: { code } }` body or the error's own `status`. */
+    status?: number;
+    message: string;
+    /** Gemini's `google.rpc` error details, e.g. `RetryInfo` or `ErrorInfo`. */
+    details: unknown[];
+    /** Set by the proxy provider from the `Retry-After` header. */
+    retryAfterSeconds?: number;
+}
+
+/**
+ * Checks that a value is an object whose fields can be read.
+ * @param value Anything.
+ * @returns True for non-null objects.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+const readString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+const readNumber = (value: unknown): number | undefined => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+/**
+ * Reads the status, message and details from anything a provider can throw: an SDK `ApiError`,
+ * an error carrying a Gemini-style `{ error: { code, message, details } }` body, or a plain Error.
+ * @param error The raw error.
+ * @returns The fields that were present; the message falls back to the error as a string.
+ */
+export function readApiError(error: unknown): ApiErrorFields {
+    const record = isRecord(error) ? error : {};
+    const body = isRecord(record.error) ? record.error : {};
+    return {
+        status: readNumber(body.code) ?? readNumber(record.status),
+        message: readString(body.message) ?? readString(record.message) ?? String(error),
+        details: Array.isArray(body.details) ? body.details : [],
+        retryAfterSeconds: readNumber(record.retryAfterSeconds),
+    };
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const STORAGE_KEY = 'pubg-lobby:gemini-api-key';
+
+export type ApiKeyPersistence = 'local' | 'session';
+
+export interface StoredApiKey {
+    key: string;
+    persistence: ApiKeyPersistence;
+}
+
+// Storage access can throw (e.g. in privacy modes or sandboxed iframes), so treat failures as "no key".
+function readFrom(storage: Storage): string | null {
+    try {
+        return storage.getItem(STORAGE_KEY);
+    } catch {
+        return null;
+    }
+}
+
+function removeFrom(storage: Storage) {
+    try {
+        storage.removeItem(STORAGE_KEY);
+    } catch {
+        // Nothing to clean up if storage is unavailable.
+    }
+}
+
+/**
+ * Reads the user's Gemini API key, preferring a session-only key over a remembered one.
+ * @returns The stored key and where it lives, or null if none is set.
+ */
+export function getStoredApiKey(): StoredApiKey | null {
+    const sessionKey = readFrom(sessionStorage);
+    if (sessionKey) return { key: sessionKey, persistence: 'session' };
+
+    const localKey = readFrom(localStorage);
+    if (localKey) return { key: localKey, persistence: 'local' };
+
+    return null;
+}
+
+/**
+ * Returns just the user's Gemini API key.
+ * @returns The key, or null if none is set.
+ */
+export function getApiKey(): string | null {
+    return getStoredApiKey()?.key ?? null;
+}
+
+/**
+ * Saves the user's Gemini API key.
+ * @param key The API key to store.
+ * @param persistence 'local' to remember it on this device, 'session' to forget it when the tab closes.
+ */
+export function saveApiKey(key: string, persistence: ApiKeyPersistence) {
+    const target = persistence === 'local' ? localStorage : sessionStorage;
+    const other = persistence === 'local' ? sessionStorage : localStorage;
+    removeFrom(other);
+    target.setItem(STORAGE_KEY, key.trim());
+}
+
+/** Removes the user's Gemini API key from both local and session storage. */
+export function clearApiKey() {
+    removeFrom(localStorage);
+    removeFrom(sessionStorage);
+}
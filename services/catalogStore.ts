@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BUILTIN_CATALOG_ID, CatalogValidationError, parseCatalog, parseCatalogJson } from '../lib/catalog';
+import type { Catalog } from '../lib/catalog';
+
+const STORAGE_KEY = 'pubg-lobby:catalog-packs';
+
+export interface StoredCatalogPack {
+    catalog: Catalog;
+    enabled: boolean;
+    importedAt: number;
+}
+
+function writePacks(packs: StoredCatalogPack[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+}
+
+/**
+ * Reads the imported catalog packs. Packs that no longer validate are skipped.
+ * @returns The packs in import order.
+ */
+export function listCatalogPacks(): StoredCatalogPack[] {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    } catch (error) {
+        console.error("Failed to read catalog packs:", error);
+        return [];
+    }
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap((pack): StoredCatalogPack[] => {
+        try {
+            return [{
+                catalog: parseCatalog(pack?.catalog),
+                enabled: pack?.enabled !== false,
+                importedAt: typeof pack?.importedAt === 'number' ? pack.importedAt : 0,
+            }];
+        } catch (error) {
+            console.warn("Skipping invalid catalog pack:", error);
+            return [];
+        }
+    });
+}
+
+/**
+ * Imports a catalog pack from JSON text. A pack with the same ID as an existing one replaces it.
+ * @param json The contents of the pack file.
+ * @returns The updated list of packs.
+ * @throws CatalogValidationError if the pack is invalid.
+ */
+export function importCatalogPack(json: string): StoredCatalogPack[] {
+    const catalog = parseCatalogJson(json);
+    if (catalog.id === BUILTIN_CATALOG_ID) {
+        throw new CatalogValidationError(`The ID "${BUILTIN_CATALOG_ID}" is reserved for the built-in catalog.`);
+    }
+    if (catalog.outfits.length + catalog.maps.length + catalog.scenarios.length === 0) {
+        throw new CatalogValidationError("This pack doesn't contain any outfits, maps or scenarios.");
+    }
+
+    const packs = listCatalogPacks().filter(pack => pack.catalog.id !== catalog.id);
+    packs.push({ catalog, enabled: true, importedAt: Date.now() });
+    writePacks(packs);
+    return packs;
+}
+
+/**
+ * Turns a pack on or off without removing it.
+ * @param id The pack's catalog ID.
+ * @param enabled Whether the pack's entries should be offered.
+ * @returns The updated list of packs.
+ */
+export function setCatalogPackEnabled(id: string, enabled: boolean): StoredCatalogPack[] {
+    const packs = listCatalogPacks().map(pack => (pack.catalog.id === id ? { ...pack, enabled } : pack));
+    writePacks(packs);
+    return packs;
+}
+
+/**
+ * Removes an imported pack.
+ * @param id The pack's catalog ID.
+ * @returns The updated list of packs.
+ */
+export function removeCatalogPack(id: string): StoredCatalogPack[] {
+    const packs = listCatalogPacks().filter(pack => pack.catalog.id !== id);
+    writePacks(packs);
+    return packs;
+}
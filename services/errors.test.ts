@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    classifyError,
+    GenerationError,
+    InvalidApiKeyError,
+    InvalidInputError,
+    NetworkError,
+    PermissionDeniedError,
+    QuotaExceededError,
+    RateLimitedError,
+    SafetyBlockedError,
+} from './errors';
+import type { ErrorAction } from '../types';
+
+const RETRY_INFO = { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '31s' };
+const INVALID_KEY_INFO = { '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' };
+
+// A Gemini-style error body, as the SDK and the API server carry it
+const apiError = (code: number, message: string, details: unknown[] = []) => ({ error: { code, message, details } });
+
+describe('classifyError', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it.each<[string, unknown, new (...args: never[]) => GenerationError, ErrorAction]>([
+        ['a rejected key (ErrorInfo)', apiError(400, 'Bad request', [INVALID_KEY_INFO]), InvalidApiKeyError, 'open-settings'],
+        ['a rejected key (message only)', { status: 400, message: 'API key not valid. Please pass a valid API key.' }, InvalidApiKeyError, 'open-settings'],
+        ['a 401', { status: 401, message: 'Unauthorized' }, InvalidApiKeyError, 'open-settings'],
+        ['a 403 without quota', apiError(403, 'Permission denied: the caller does not have permission'), PermissionDeniedError, 'open-settings'],
+        ['a 403 for billing', apiError(403, 'Billing account is disabled'), QuotaExceededError, 'wait'],
+        ['a per-minute 429', apiError(429, 'Resource has been exhausted', [RETRY_INFO]), RateLimitedError, 'wait'],
+        ['a per-day 429', apiError(429, 'Quota exceeded: requests per day'), QuotaExceededError, 'wait'],
+        ['any other 400', apiError(400, 'Unable to process input image'), InvalidInputError, 'change-outfit'],
+        ['a 503', apiError(503, 'The model is overloaded'), NetworkError, 'retry'],
+        ['a failed fetch', new TypeError('Failed to fetch'), NetworkError, 'retry'],
+        ['anything else', 'something odd', GenerationError, 'retry'],
+    ])('classifies %s', (_, error, errorClass, action) => {
+        const classified = classifyError(error);
+        expect(classified).toBeInstanceOf(errorClass);
+        expect(classified.action).toBe(action);
+    });
+
+    it('keeps the wait the API asked for on rate limits', () => {
+        expect(classifyError(apiError(429, 'Resource has been exhausted', [RETRY_INFO])).retryAfterSeconds).toBe(31);
+    });
+
+    it('passes typed errors through unchanged', () => {
+        const error = new SafetyBlockedError('I cannot draw that.');
+        expect(classifyError(error)).toBe(error);
+    });
+
+    it('treats any failure while offline as a network error', () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        expect(classifyError(new Error('Something went wrong'))).toBeInstanceOf(NetworkError);
+    });
+});
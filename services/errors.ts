@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isRecord, readApiError } from './apiError';
+import { getRetryAfterSeconds } from './retryAfter';
+import type { ErrorAction } from '../types';
+
+/**
+ * A failed model call, explained for the user. `message` keeps the technical details
+ * for logs; `userMessage` and `action` are what the card shows.
+ */
+export class GenerationError extends Error {
+    readonly userMessage: string;
+    readonly action: ErrorAction;
+    /** How long to wait before retrying, when the API said. */
+    readonly retryAfterSeconds?: number;
+
+    constructor(message: string, userMessage: string, action: ErrorAction, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'GenerationError';
+        this.userMessage = userMessage;
+        this.action = action;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/** The model answered with text instead of an image, usually because a safety filter refused the prompt. */
+export class SafetyBlockedError extends GenerationError {
+    /** What the model said instead of drawing. */
+    readonly modelText?: string;
+
+    constructor(modelText?: string) {
+        super(
+            `The AI model responded with text instead of an image: "${modelText || 'No text response received.'}"`,
+            "The AI refused to draw this one, probably because of its safety filters. Try a different outfit.",
+            'change-outfit',
+        );
+        this.name = 'SafetyBlockedError';
+        this.modelText = modelText;
+    }
+}
+
+/** Too many requests in a short time (HTTP 429). Clears up on its own. */
+export class RateLimitedError extends GenerationError {
+    constructor(message: string, retryAfterSeconds?: number) {
+        super(
+            message,
+            retryAfterSeconds !== undefined
+                ? `Too many requests right now. Try again in ${Math.ceil(retryAfterSeconds)} seconds.`
+                : "Too many requests right now. Wait a moment and try again.",
+            'wait',
+            retryAfterSeconds,
+        );
+        this.name = 'RateLimitedError';
+    }
+}
+
+/** The API rejected the request itself (HTTP 400), e.g. an image it can't process. */
+export class InvalidInputError extends GenerationError {
+    constructor(message: string) {
+        super(message, "The AI couldn't work with this request. Try a different outfit, or upload a different photo.", 'change-outfit');
+        this.name = 'InvalidInputError';
+    }
+}
+
+/** Gemini rejected the API key itself (HTTP 400 `API_KEY_INVALID`, or 401). Retrying can't help. */
+export class InvalidApiKeyError extends GenerationError {
+    constructor(message: string) {
+        super(message, "Google didn't accept the Gemini API key. Check or replace your key in Settings.", 'open-settings');
+        this.name = 'InvalidApiKeyError';
+    }
+}
+
+/** The API key is valid but isn't allowed to use the model (HTTP 403), e.g. a restricted key. */
+export class PermissionDeniedError extends GenerationError {
+    constructor(message: string) {
+        super(
+            message,
+            "This Gemini API key isn't allowed to use the image model. Check its restrictions in Google AI Studio, or use a different key in Settings.",
+            'open-settings',
+        );
+        this.name = 'PermissionDeniedError';
+    }
+}
+
+/** The service couldn't be reached, or kept failing on its side (HTTP 5xx). */
+export class NetworkError extends GenerationError {
+    constructor(message: string) {
+        super(message, "Couldn't reach the image service. Check your connection and try again.", 'retry');
+        this.name = 'NetworkError';
+    }
+}
+
+/** The API key's quota or billing limit is used up. Retrying won't help until it resets. */
+export class QuotaExceededError extends GenerationError {
+    constructor(message: string, retryAfterSeconds?: number) {
+        super(
+            message,
+            "The Gemini quota for this API key is used up. Wait for it to reset, or add a different key in Settings.",
+            'wait',
+            retryAfterSeconds,
+        );
+        this.name = 'QuotaExceededError';
+    }
+}
+
+// Gemini marks a bad key with an ErrorInfo detail; the SDK sometimes only has it in the message text
+const isInvalidApiKey = (message: string, details: unknown[]): boolean => (
+    details.some(detail => isRecord(detail) && detail.reason === 'API_KEY_INVALID')
+    || /API_KEY_INVALID|API key not valid/i.test(message)
+);
+
+/**
+ * Turns anything a provider can throw into a GenerationError.
+ * @param error The raw error, e.g. an SDK ApiError or a failed fetch.
+ * @returns The matching typed error, or a generic GenerationError offering a retry.
+ */
+export function classifyError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+
+    const { status, message, details } = readApiError(error);
+
+    if (status === 401 || ((status === 400 || status === 403) && isInvalidApiKey(message, details))) {
+        return new InvalidApiKeyError(message);
+    }
+
+    if (status === 429 || status === 403) {
+        // Gemini reports per-minute and per-day limits alike as 429 RESOURCE_EXHAUSTED
+        const isQuota = status === 403
+            ? /quota|billing/i.test(message)
+            : /per ?day|billing|free_tier_requests.*day/i.test(message);
+        const retryAfterSeconds = getRetryAfterSeconds(error) ?? undefined;
+        if (isQuota) return new QuotaExceededError(message, retryAfterSeconds);
+        if (status === 429) return new RateLimitedError(message, retryAfterSeconds);
+        return new PermissionDeniedError(message);
+    }
+    if (status === 400) {
+        return new InvalidInputError(message);
+    }
+    if ((typeof status === 'number' && status >= 500) || /\binternal\b/i.test(message)
+        || (error instanceof TypeError && /fetch|network|load failed/i.test(message))) {
+        return new NetworkError(message);
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return new NetworkError(message);
+    }
+
+    return new GenerationError(message, message || "Something went wrong. Please try again.", 'retry');
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { ImageProvider, InlineImage, ImageResult } from './imageProvider';
+
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+export const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    imageModel?: string;
+    textModel?: string;
+}
+
+/**
+ * Creates an ImageProvider backed by the Gemini API.
+ * @param options The API key and optional model overrides.
+ * @returns An ImageProvider that calls Gemini directly from the browser.
+ */
+export function createGeminiProvider(options: GeminiProviderOptions): ImageProvider {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const imageModel = options.imageModel ?? DEFAULT_IMAGE_MODEL;
+    const textModel = options.textModel ?? DEFAULT_TEXT_MODEL;
+
+    return {
+        name: 'gemini',
+        imageModel,
+        textModel,
+
+        async generateImage(images: InlineImage[], prompt: string, signal?: AbortSignal): Promise<ImageResult> {
+            const response = await ai.models.generateContent({
+                model: imageModel,
+                contents: { parts: [...images.map(image => ({ inlineData: image })), { text: prompt }] },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+
+            const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+            if (imagePartFromResponse?.inlineData) {
+                const { mimeType, data } = imagePartFromResponse.inlineData;
+                return { imageDataUrl: `data:${mimeType};base64,${data}` };
+            }
+            return { text: response.text };
+        },
+
+        async generateText(image: InlineImage, prompt: string, signal?: AbortSignal): Promise<string> {
+            const response = await ai.models.generateContent({
+                model: textModel,
+                contents: { parts: [{ inlineData: image }, { text: prompt }] },
+                config: { abortSignal: signal },
+            });
+            return response.text ?? '';
+        },
+    };
+}
+
+/**
+ * Checks that an API key works by fetching the text model's metadata, which
+ * doesn't consume any generation quota.
+ * @param apiKey The key to validate.
+ * @returns A promise that resolves if the key is accepted and rejects with the API's error otherwise.
+ */
+export async function validateGeminiApiKey(apiKey: string): Promise<void> {
+    const ai = new GoogleGenAI({ apiKey });
+    await ai.models.get({ model: DEFAULT_TEXT_MODEL });
+}
@@ -2,206 +2,344 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
+import { getImageProvider } from './imageProvider';
+import type { ImageResult, InlineImage } from './imageProvider';
+import { createCacheKey, findCacheEntry, isCacheEnabled, putCacheEntry } from './generationCache';
+import type { CacheMode } from './generationCache';
+import { getTelemetryLog } from './telemetry';
+import type { CallDetails, CallOutcome, CallRecorder } from './telemetry';
+import { decodeDataUrl } from '../lib/imageStore';
+import { delay, isAbortError } from '../lib/abort';
+import { getScheduler } from './scheduler';
+import type { TaskPriority } from './scheduler';
+import { GenerationError, NetworkError, RateLimitedError, SafetyBlockedError, classifyError } from './errors';
+import { DEFAULT_FALLBACK_CHAIN, parseFallbackChain, renderPrompt, renderSquadPrompt } from '../lib/prompts';
+import type { PromptContext, RenderedPrompt, SquadPromptContext } from '../lib/prompts';
+import type { PromptTier } from '../types';
+
+/** How a model call is scheduled and cancelled. */
+export interface CallOptions {
+    /** Cancels the call, including queued attempts and pending retries. */
+    signal?: AbortSignal;
+    /** 'user' for calls someone is actively waiting on, e.g. regenerating a card. Defaults to 'batch'. */
+    priority?: TaskPriority;
+    /** Identifies the call in the scheduler's queue and the telemetry log, e.g. the outfit a card is for. */
+    label?: string;
+    /** The lobby session the call is made for, so the telemetry log can total each session. */
+    sessionId?: string;
+}
 
-const API_KEY = process.env.API_KEY;
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+/** Options for generating a card. */
+export interface GenerateOptions extends CallOptions {
+    /** Prompt tiers to try in order while the model keeps refusing. Defaults to `PROMPT_FALLBACK_CHAIN`, then every tier. */
+    fallbackChain?: PromptTier[];
+    /**
+     * 'reuse' answers from the generation cache when the same photos and prompt were generated before;
+     * 'fresh' always calls the model. The new image is cached either way. Defaults to 'reuse'.
+     */
+    cache?: CacheMode;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/** A generated card and the prompt that finally produced it. */
+export interface GenerationResult {
+    image: Blob;
+    prompt: RenderedPrompt;
+    /** True if the image came from the generation cache instead of a model call. */
+    fromCache: boolean;
+}
 
 
 // --- Helper Functions ---
 
 /**
- * Creates a fallback prompt to use when the primary one is blocked.
- * @param character The PUBG outfit string (e.g., "Blood Raven X-Suit").
- * @returns The fallback prompt string.
- */
-function getFallbackPrompt(character: string): string {
-    return `Place the person from the photo into a video game world. Dress them in the PUBG outfit named "${character}". It is very important that their face is clearly visible and not covered by a helmet or mask. Keep all their original facial features. The background should be a scene from a popular online multiplayer game. The final image should look like a realistic photograph.`;
-}
-
-/**
- * Extracts the outfit name (e.g., "Blood Raven X-Suit") from a prompt string.
- * @param prompt The original prompt.
- * @returns The outfit name string or null if not found.
+ * Returns the fallback chain configured with the `PROMPT_FALLBACK_CHAIN` setting,
+ * or the default one if it is unset or invalid.
  */
-function extractCharacter(prompt: string): string | null {
-    const match = prompt.match(/- \*\*Outfit:\*\* Dress them in the following PUBG outfit: "(.*?)"\./);
-    return match ? match[1] : null;
+function getDefaultFallbackChain(): PromptTier[] {
+    const configured = process.env.PROMPT_FALLBACK_CHAIN;
+    const chain = parseFallbackChain(configured);
+    if (configured && !chain) {
+        console.warn(`Ignoring invalid PROMPT_FALLBACK_CHAIN "${configured}".`);
+    }
+    return chain ?? DEFAULT_FALLBACK_CHAIN;
 }
 
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
+ * Processes a provider's image result, extracting the image or throwing an error if none is found.
+ * @param result The result from the provider's generateImage call.
  * @returns A data URL string for the generated image.
  */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
+function processImageResult(result: ImageResult): string {
+    if (result.imageDataUrl) {
+        return result.imageDataUrl;
     }
 
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+    throw new SafetyBlockedError(result.text);
 }
 
 
 /**
- * A generic retry wrapper for Gemini API calls. Implements exponential backoff with jitter.
+ * A generic retry wrapper for Gemini API calls. Every attempt is queued on the shared
+ * scheduler. Server errors are retried with exponential backoff and jitter; rate limits
+ * (429) pause the whole scheduler for as long as the API asks.
  * @param apiCall A function that returns the promise from the API call.
+ * @param options Cancellation and scheduling; an AbortError is re-thrown as-is.
  * @returns The result of the API call.
+ * @throws A GenerationError subclass describing the last failure.
  */
-async function withRetry<T>(apiCall: () => Promise<T>): Promise<T> {
+async function withRetry<T>(apiCall: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    const { signal, priority, label } = options;
+    const scheduler = getScheduler();
     const maxRetries = 4;
     const initialDelay = 2000;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
         try {
-            return await apiCall();
-        } catch (error: any) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-
-            // Dig into the error object to find a status code.
-            const status = error?.error?.code || error?.status;
-            const message = error?.error?.message || error?.message || '';
+            return await scheduler.schedule(apiCall, { priority, label, signal });
+        } catch (error) {
+            if (isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            const classified = classifyError(error);
 
-            // Retriable codes: 500 (Internal), 503 (Service Unavailable).
-            const isRetriable = [500, 503].includes(status) || message.toLowerCase().includes('internal');
+            if (classified instanceof RateLimitedError && attempt < maxRetries) {
+                // Every call shares the same quota, so hold back the whole queue, not just this call.
+                const waitMs = classified.retryAfterSeconds !== undefined
+                    ? classified.retryAfterSeconds * 1000
+                    : initialDelay * Math.pow(2, attempt - 1);
+                scheduler.pauseFor(waitMs);
+                continue;
+            }
 
-            if (isRetriable && attempt < maxRetries) {
+            // Safety refusals, bad input and used-up quotas come out the same on every attempt.
+            if (classified instanceof NetworkError && attempt < maxRetries) {
                 // Exponential backoff with jitter
-                const delay = initialDelay * Math.pow(2, attempt - 1) + Math.random() * 1000;
-                console.log(`Retriable error detected (status: ${status || 'N/A'}). Retrying in ${Math.round(delay)}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                const backoffMs = initialDelay * Math.pow(2, attempt - 1) + Math.random() * 1000;
+                await delay(backoffMs, signal);
                 continue;
             }
 
-            // For non-retriable errors or if retries are exhausted, re-throw a consistent error.
-            if (error instanceof Error) {
-                throw error;
-            } else {
-                throw new Error(`Gemini API call failed: ${message || JSON.stringify(error)}`);
-            }
+            throw classified;
         }
     }
     // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+    throw new GenerationError("Gemini API call failed after all retries.", "The image service kept failing. Please try again.", 'retry');
 }
 
 
+// The decoded size of base64 data
+const base64Bytes = (data: string): number => Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+const textBytes = (text: string): number => new TextEncoder().encode(text).length;
+
+// What one attempt sends: the photos and the prompt
+const requestBytes = (images: InlineImage[], prompt: string): number => (
+    images.reduce((total, image) => total + base64Bytes(image.data), 0) + textBytes(prompt)
+);
+
+// What came back: the image, or the text the model answered with instead
+const resultBytes = (result: ImageResult): number => (
+    result.imageDataUrl ? base64Bytes(result.imageDataUrl.slice(result.imageDataUrl.indexOf(',') + 1)) : textBytes(result.text ?? '')
+);
+
+function getCallOutcome(error: unknown): CallOutcome {
+    if (isAbortError(error)) return 'aborted';
+    return error instanceof SafetyBlockedError ? 'blocked' : 'failed';
+}
+
 /**
- * Generates a character-styled image from a source image and a prompt.
- * It includes a fallback mechanism for prompts that might be blocked.
- * @param imageDataUrl A data URL string of the source image (e.g., 'data:image/png;base64,...').
- * @param prompt The prompt to guide the image generation.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * Splits an image data URL into the inline form the providers send.
+ * @param imageDataUrl A data URL string (e.g., 'data:image/png;base64,...').
+ * @returns The image's MIME type and base64 data.
  */
-export async function generateCharacterImage(imageDataUrl: string, prompt: string): Promise<string> {
-  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-  }
-  const [, mimeType, base64Data] = match;
-
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-
-    // --- First attempt with the original prompt ---
+function toInlineImage(imageDataUrl: string): InlineImage {
+    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+    if (!match) {
+        throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+    }
+    const [, mimeType, data] = match;
+    return { mimeType, data };
+}
+
+/**
+ * Looks for an image cached from an earlier call with the same photos and any prompt in the chain,
+ * preferring earlier tiers. The cache is a convenience, so any failure to read it counts as a miss.
+ * @returns The cached result, or null if there is none.
+ */
+async function findCachedResult(images: InlineImage[], prompts: RenderedPrompt[], model: string): Promise<GenerationResult | null> {
     try {
-        console.log("Attempting generation with original prompt...");
-        const textPart = { text: prompt };
-        const response = await withRetry(() => ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: { parts: [imagePart, textPart] },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        }));
-        return processGeminiResponse(response);
+        const keys = await Promise.all(prompts.map(prompt => createCacheKey(images, prompt, model)));
+        const entry = await findCacheEntry(keys);
+        if (!entry) return null;
+        const prompt = prompts[keys.indexOf(entry.key)];
+        return { image: entry.image, prompt, fromCache: true };
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
-
-        if (isNoImageError) {
-            console.warn("Original prompt was likely blocked. Trying a fallback prompt.");
-            const character = extractCharacter(prompt);
-            if (!character) {
-                console.error("Could not extract character from prompt, cannot use fallback.");
-                throw error; // Re-throw the original "no image" error.
-            }
+        console.warn("Couldn't read the generation cache:", error);
+        return null;
+    }
+}
+
+/**
+ * Stores a generated image in the cache in the background; a failure only costs the reuse.
+ */
+function cacheResult(images: InlineImage[], prompt: RenderedPrompt, model: string, image: Blob, label?: string) {
+    createCacheKey(images, prompt, model)
+        .then(key => putCacheEntry(key, image, { model, promptTier: prompt.tier, promptVersion: prompt.version, label }))
+        .catch(error => console.warn("Couldn't store the image in the generation cache:", error));
+}
 
-            // --- Second attempt with the fallback prompt ---
-            try {
-                const fallbackPrompt = getFallbackPrompt(character);
-                console.log(`Attempting generation with fallback prompt for ${character}...`);
-                const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await withRetry(() => ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image-preview',
-                    contents: { parts: [imagePart, fallbackTextPart] },
-                    config: {
-                        // FIX: Corrected typo from Mod.TEXT to Modality.TEXT
-                        responseModalities: [Modality.IMAGE, Modality.TEXT],
-                    },
-                }));
-                return processGeminiResponse(fallbackResponse);
-            } catch (fallbackError) {
-                console.error("Fallback prompt also failed.", fallbackError);
-                const finalErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-                throw new Error(`The AI model failed with both original and fallback prompts. Last error: ${finalErrorMessage}`);
+/**
+ * Walks the fallback chain, moving on to the next tier's prompt whenever the model refuses one.
+ * Unless told to generate fresh, an image cached for any tier in the chain is reused instead.
+ * Every tier tried, and every cache hit, is recorded in the telemetry log.
+ * @param imageDataUrls The source photos, in the order the prompts refer to them.
+ * @param render Renders the prompt for a tier.
+ * @param options Cancellation, scheduling, the fallback chain and cache mode.
+ * @returns The generated image and the prompt that produced it.
+ */
+async function generateWithFallback(imageDataUrls: string[], render: (tier: PromptTier) => RenderedPrompt, options: GenerateOptions): Promise<GenerationResult> {
+    const { signal, fallbackChain = getDefaultFallbackChain(), cache = 'reuse' } = options;
+    const images = imageDataUrls.map(toInlineImage);
+    const provider = getImageProvider();
+    const tiers = fallbackChain.length > 0 ? fallbackChain : DEFAULT_FALLBACK_CHAIN;
+    const prompts = tiers.map(render);
+    const useCache = isCacheEnabled();
+    const telemetry = getTelemetryLog();
+    const describeCall = (prompt: RenderedPrompt): CallDetails => ({
+        sessionId: options.sessionId,
+        kind: 'image',
+        provider: provider.name,
+        model: provider.imageModel,
+        label: options.label,
+        promptTier: prompt.tier,
+        promptVersion: prompt.version,
+        isFallback: prompt !== prompts[0],
+        imageCount: images.length,
+        bytesIn: requestBytes(images, prompt.text),
+    });
+
+    if (useCache && cache === 'reuse') {
+        const cached = await findCachedResult(images, prompts, provider.imageModel);
+        signal?.throwIfAborted();
+        if (cached) {
+            // Nothing was sent, so only the image read back from the cache counts
+            telemetry.startCall({ ...describeCall(cached.prompt), bytesIn: 0 })
+                .finish('cached', { bytesOut: cached.image.size });
+            return cached;
+        }
+    }
+
+    let lastError: unknown;
+    for (const prompt of prompts) {
+        const call = telemetry.startCall(describeCall(prompt));
+        let result: ImageResult | undefined;
+        try {
+            result = await withRetry(() => {
+                call.countAttempt();
+                return provider.generateImage(images, prompt.text, signal);
+            }, options);
+            // Decoded once here; the card and the cache share the same Blob
+            const image = decodeDataUrl(processImageResult(result));
+            call.finish('success', { bytesOut: resultBytes(result) });
+            if (useCache) {
+                cacheResult(images, prompt, provider.imageModel, image, options.label);
             }
-        } else {
-            // This is for other errors, like a final internal server error after retries.
-            console.error("An unrecoverable error occurred during image generation.", error);
-            throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+            return { image, prompt, fromCache: false };
+        } catch (error) {
+            call.finish(getCallOutcome(error), { bytesOut: result ? resultBytes(result) : 0, error });
+            if (!(error instanceof SafetyBlockedError)) {
+                // Aborts and every other failure (rate limits, network, bad input) are passed on as-is.
+                throw error;
+            }
+            lastError = error;
         }
     }
+
+    throw lastError;
+}
+
+/**
+ * Generates a character-styled image from a source image and a card's prompt context.
+ * Whenever the model refuses a prompt, the next tier of the fallback chain is tried.
+ * @param imageDataUrl A data URL string of the source image (e.g., 'data:image/png;base64,...').
+ * @param context The card to render prompts for.
+ * @param options Cancellation, scheduling, the fallback chain and cache mode, applied to every call including retries.
+ * @returns A promise that resolves to the generated image and the prompt tier that produced it.
+ * Rejects with an AbortError if cancelled, or a GenerationError explaining the last failure.
+ */
+export async function generateCharacterImage(imageDataUrl: string, context: PromptContext, options: GenerateOptions = {}): Promise<GenerationResult> {
+    return generateWithFallback([imageDataUrl], tier => renderPrompt(tier, context), options);
+}
+
+/**
+ * Generates one group shot of a whole squad, sending every member's photo in a single call.
+ * Falls back through the prompt tiers like `generateCharacterImage`.
+ * @param imageDataUrls Each member's photo, in the same order as `context.members`.
+ * @param context The squad to render prompts for.
+ * @param options Cancellation, scheduling, the fallback chain and cache mode.
+ * @returns A promise that resolves to the group shot and the prompt tier that produced it.
+ */
+export async function generateSquadImage(imageDataUrls: string[], context: SquadPromptContext, options: GenerateOptions = {}): Promise<GenerationResult> {
+    if (imageDataUrls.length !== context.members.length) {
+        throw new Error(`Expected one photo per squad member, got ${imageDataUrls.length} for ${context.members.length}.`);
+    }
+    return generateWithFallback(imageDataUrls, tier => renderSquadPrompt(tier, context), options);
 }
 
 /**
  * Analyzes an image to determine the subject's gender.
  * @param imageDataUrl A data URL string of the source image.
- * @returns A promise that resolves to 'Male', 'Female', or 'Unknown'.
+ * @param options Cancellation and scheduling. Analysis runs at 'user' priority unless told otherwise.
+ * @returns A promise that resolves to 'Male', 'Female', or 'Unknown'. Rejects with an AbortError if cancelled.
  */
-export async function detectGender(imageDataUrl: string): Promise<'Male' | 'Female' | 'Unknown'> {
+export async function detectGender(imageDataUrl: string, options: CallOptions = {}): Promise<'Male' | 'Female' | 'Unknown'> {
+    const callOptions: CallOptions = { priority: 'user', label: 'analysis', ...options };
     const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
     if (!match) {
         throw new Error("Invalid image data URL format for gender detection.");
     }
     const [, mimeType, base64Data] = match;
 
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-    const textPart = {
-        text: "Analyze the person in this image and determine their most likely gender. Respond with only one word: 'Male', 'Female', or 'Unknown'."
-    };
+    const image: InlineImage = { mimeType, data: base64Data };
+    const prompt = "Analyze the person in this image and determine their most likely gender. Respond with only one word: 'Male', 'Female', or 'Unknown'.";
 
+    let call: CallRecorder | undefined;
     try {
-        const response = await withRetry(() => ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
-        }));
+        const provider = getImageProvider();
+        call = getTelemetryLog().startCall({
+            sessionId: callOptions.sessionId,
+            kind: 'text',
+            provider: provider.name,
+            model: provider.textModel,
+            label: callOptions.label,
+            isFallback: false,
+            imageCount: 1,
+            bytesIn: requestBytes([image], prompt),
+        });
+        const responseText = await withRetry(() => {
+            call?.countAttempt();
+            return provider.generateText(image, prompt, callOptions.signal);
+        }, callOptions);
+        call.finish('success', { bytesOut: textBytes(responseText) });
 
-        const resultText = response.text.trim().toLowerCase();
+        const resultText = responseText.trim().toLowerCase();
         
-        if (resultText.includes('male')) {
-            return 'Male';
-        } else if (resultText.includes('female')) {
+        // Match whole words, since "female" contains "male"
+        if (/\bfemale\b/.test(resultText)) {
             return 'Female';
+        } else if (/\bmale\b/.test(resultText)) {
+            return 'Male';
         } else {
             console.warn(`Gender detection returned an unexpected value: "${resultText}". Defaulting to 'Unknown'.`);
             return 'Unknown';
         }
     } catch (error) {
+        call?.finish(getCallOutcome(error), { error });
+        if (isAbortError(error)) {
+            throw error;
+        }
         console.error("Error during gender detection after retries:", error);
         // In case of API error, default to 'Unknown' to allow the app to proceed
         return 'Unknown';
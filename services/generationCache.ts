@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { InlineImage } from './imageProvider';
+import type { RenderedPrompt } from '../lib/prompts';
+import type { PromptTier } from '../types';
+
+// Kept apart from the history database, so clearing one never touches the other
+const DB_NAME = 'pubg-lobby-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const SETTINGS_KEY = 'pubg-lobby:generation-cache';
+const DEFAULT_MAX_MEGABYTES = 200;
+
+/** Whether a call may answer from the cache ('reuse') or must pay for a new image ('fresh'). */
+export type CacheMode = 'reuse' | 'fresh';
+
+/** A generated image, stored under the hash of everything that went into making it. */
+export interface CacheEntry {
+    key: string;
+    image: Blob;
+    model: string;
+    promptTier: PromptTier;
+    promptVersion: number;
+    /** Identifies the call the image was made for, e.g. the outfit a card is for. */
+    label?: string;
+    sizeBytes: number;
+    createdAt: number;
+    /** Entries used least recently are evicted first. */
+    lastUsedAt: number;
+    /** How many calls this entry has answered. */
+    hits: number;
+}
+
+export interface CacheStats {
+    entryCount: number;
+    storedBytes: number;
+    maxBytes: number;
+    /** Lookups answered from the cache since the page was loaded. */
+    hits: number;
+    /** Lookups that had to call the model since the page was loaded. */
+    misses: number;
+}
+
+let hits = 0;
+let misses = 0;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+                    const store = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+                    store.createIndex('lastUsedAt', 'lastUsedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null; // Allow a later call to retry opening the database.
+                reject(request.error ?? new Error('Failed to open the generation cache.'));
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Runs a callback inside a transaction on the entries store and waits for it to commit.
+ * @param mode The transaction mode.
+ * @param callback Receives the object store and returns the request whose result is wanted.
+ * @returns The result of the callback's request.
+ */
+async function withStore<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(ENTRIES_STORE, mode);
+        const request = callback(transaction.objectStore(ENTRIES_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Cache transaction was aborted.'));
+    });
+}
+
+/**
+ * Reports whether generated images are cached and reused. On unless the user turned it off.
+ * @returns True if the cache is enabled.
+ */
+export function isCacheEnabled(): boolean {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+        return typeof stored.enabled === 'boolean' ? stored.enabled : true;
+    } catch {
+        return true;
+    }
+}
+
+/**
+ * Turns the cache on or off. Turning it off stops both lookups and new entries; stored ones are kept.
+ * @param enabled Whether to cache generated images.
+ */
+export function setCacheEnabled(enabled: boolean) {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify({ enabled }));
+    } catch (error) {
+        console.error("Failed to save the cache setting:", error);
+    }
+}
+
+/**
+ * Returns the most the cache may hold, set with `GENERATION_CACHE_MAX_MB` (200 MB by default).
+ * @returns The size cap in bytes.
+ */
+export function getCacheMaxBytes(): number {
+    const configured = Number(process.env.GENERATION_CACHE_MAX_MB);
+    const megabytes = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_MEGABYTES;
+    return Math.round(megabytes * 1024 * 1024);
+}
+
+const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Hashes everything that decides what a call generates: the source photos' bytes, the model and the
+ * rendered prompt with its template tier and version. The photos are hashed as decoded bytes, so the
+ * same upload matches however its base64 was produced.
+ * @param images The source photos, in the order they are sent.
+ * @param prompt The rendered prompt.
+ * @param model The image model.
+ * @returns The entry's key, as a hex SHA-256 digest.
+ */
+export async function createCacheKey(images: InlineImage[], prompt: RenderedPrompt, model: string): Promise<string> {
+    const imageBytes = images.map(image => Uint8Array.from(atob(image.data), char => char.charCodeAt(0)));
+    const header = new TextEncoder().encode(JSON.stringify({
+        model,
+        tier: prompt.tier,
+        version: prompt.version,
+        prompt: prompt.text,
+        images: images.map((image, index) => [image.mimeType, imageBytes[index].length]),
+    }));
+    const parts = [header, ...imageBytes];
+    const data = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        data.set(part, offset);
+        offset += part.length;
+    }
+    return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * Looks up a cached image and marks it as just used. Counts once towards the hit rate.
+ * @param keys Keys from `createCacheKey`, in order of preference, e.g. one per prompt tier.
+ * @returns The entry for the first key that has one, or undefined if none do.
+ */
+export async function findCacheEntry(keys: string[]): Promise<CacheEntry | undefined> {
+    const db = await openDatabase();
+    const entry = await new Promise<CacheEntry | undefined>((resolve, reject) => {
+        const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+        const store = transaction.objectStore(ENTRIES_STORE);
+        const requests = keys.map(key => store.get(key));
+        let found: CacheEntry | undefined;
+        requests.forEach(request => {
+            request.onsuccess = () => {
+                // Requests succeed in the order they were made, so the first hit is the preferred one
+                if (found || !request.result) return;
+                found = request.result as CacheEntry;
+                found.lastUsedAt = Date.now();
+                found.hits += 1;
+                store.put(found);
+            };
+        });
+        transaction.oncomplete = () => resolve(found);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Cache transaction was aborted.'));
+    });
+    if (entry) {
+        hits++;
+    } else {
+        misses++;
+    }
+    return entry;
+}
+
+/**
+ * Stores a generated image, replacing any older one under the same key, then evicts the
+ * least recently used entries until the cache fits under its size cap.
+ * @param key A key from `createCacheKey`.
+ * @param image The generated image.
+ * @param details What produced the image.
+ */
+export async function putCacheEntry(key: string, image: Blob, details: Pick<CacheEntry, 'model' | 'promptTier' | 'promptVersion' | 'label'>): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry = { ...details, key, image, sizeBytes: image.size, createdAt: now, lastUsedAt: now, hits: 0 };
+    await withStore('readwrite', store => store.put(entry));
+    await evictToFit(getCacheMaxBytes());
+}
+
+/**
+ * Deletes the least recently used entries until the rest fit in the given size.
+ * @param maxBytes The most the cache may hold.
+ */
+async function evictToFit(maxBytes: number): Promise<void> {
+    // Oldest first; the images themselves aren't read until something asks for their contents
+    const entries = await withStore<CacheEntry[]>('readonly', store => store.index('lastUsedAt').getAll());
+    let storedBytes = entries.reduce((total, entry) => total + entry.sizeBytes, 0);
+    const evicted: string[] = [];
+    for (const entry of entries) {
+        if (storedBytes <= maxBytes) break;
+        evicted.push(entry.key);
+        storedBytes -= entry.sizeBytes;
+    }
+    if (evicted.length === 0) return;
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+        const store = transaction.objectStore(ENTRIES_STORE);
+        evicted.forEach(key => store.delete(key));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Cache transaction was aborted.'));
+    });
+}
+
+/**
+ * Lists every cached image, most recently used first.
+ * @returns A promise that resolves to the entries.
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+    const entries = await withStore<CacheEntry[]>('readonly', store => store.index('lastUsedAt').getAll());
+    return entries.reverse();
+}
+
+/**
+ * Summarizes what the cache holds and how often it has been used.
+ * @returns The cache's size, cap and hit counts.
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+    const entries = await withStore<CacheEntry[]>('readonly', store => store.getAll());
+    return {
+        entryCount: entries.length,
+        storedBytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0),
+        maxBytes: getCacheMaxBytes(),
+        hits,
+        misses,
+    };
+}
+
+/** Deletes every cached image and resets the hit counts. */
+export async function clearCache(): Promise<void> {
+    await withStore('readwrite', store => store.clear());
+    hits = 0;
+    misses = 0;
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Gender, GenerationItem, PromptTier, StylePreferences } from '../types';
+
+const DB_NAME = 'pubg-lobby';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+/** A generated card saved to history. */
+export interface HistoryResult {
+    /** Missing on results saved before cards kept their earlier variants. */
+    id?: string;
+    image: Blob;
+    prompt: string;
+    /** Which prompt template produced the image. Missing on results saved before templates were versioned. */
+    promptTier?: PromptTier;
+    promptVersion?: number;
+    createdAt: number;
+}
+
+/** Everything needed to browse or resume a past lobby session. */
+export interface HistorySession {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    /** The uploaded photo; for squad sessions, the first member's. */
+    sourceImage: Blob;
+    /** Every member's photo, for squad sessions. */
+    squadMembers?: { id: string; photo: Blob }[];
+    /** Only set when the user asked for a style suggestion from their photo. */
+    detectedGender: Gender | null;
+    /** Missing on sessions saved before style preferences were added. */
+    stylePreferences?: StylePreferences;
+    items: GenerationItem[];
+    /** The kept variant of each generated card, keyed by the outfit (`GenerationItem.character`). */
+    results: Record<string, HistoryResult>;
+    /** Every variant of each card, oldest first. Missing on sessions saved before variants were kept. */
+    variants?: Record<string, HistoryResult[]>;
+}
+
+export interface StorageUsage {
+    usedBytes: number;
+    quotaBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null; // Allow a later call to retry opening the database.
+                reject(request.error ?? new Error('Failed to open the history database.'));
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs a callback inside a transaction on the sessions store and waits for it to commit.
+ * @param mode The transaction mode.
+ * @param callback Receives the object store and returns the request whose result is wanted.
+ * @returns The result of the callback's request.
+ */
+async function withStore<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(SESSIONS_STORE, mode);
+        const request = callback(transaction.objectStore(SESSIONS_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('History transaction was aborted.'));
+    });
+}
+
+/**
+ * Creates or replaces a session in history.
+ * @param session The session to store.
+ */
+export async function saveSession(session: HistorySession): Promise<void> {
+    await withStore('readwrite', store => store.put(session));
+}
+
+/**
+ * Reads a session, lets a callback change it, and writes it back in one transaction.
+ * Does nothing if the session was deleted in the meantime, e.g. while a card was generating.
+ * @param sessionId The session to update.
+ * @param update Changes the session in place.
+ */
+async function updateSession(sessionId: string, update: (session: HistorySession) => void): Promise<void> {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+        const store = transaction.objectStore(SESSIONS_STORE);
+        promisifyRequest<HistorySession | undefined>(store.get(sessionId)).then(session => {
+            if (!session) return;
+            update(session);
+            store.put(session);
+        }, reject);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('History transaction was aborted.'));
+    });
+}
+
+/**
+ * Adds a generated variant to a card on an existing session and keeps it.
+ * @param sessionId The session to update.
+ * @param character The outfit the card was generated for.
+ * @param result The generated image and its prompt.
+ */
+export async function saveSessionResult(sessionId: string, character: string, result: HistoryResult): Promise<void> {
+    await updateSession(sessionId, session => {
+        const variants = session.variants ?? {};
+        variants[character] = [...(variants[character] ?? []), result];
+        session.variants = variants;
+        session.results[character] = result;
+        session.updatedAt = result.createdAt;
+    });
+}
+
+/**
+ * Picks which of a card's variants is kept, i.e. shown in the gallery and restored on resume.
+ * @param sessionId The session to update.
+ * @param character The outfit the card was generated for.
+ * @param variantId The ID of a variant saved with `saveSessionResult`.
+ */
+export async function saveKeptVariant(sessionId: string, character: string, variantId: string): Promise<void> {
+    await updateSession(sessionId, session => {
+        const kept = session.variants?.[character]?.find(variant => variant.id === variantId);
+        if (!kept) return;
+        session.results[character] = kept;
+        session.updatedAt = Date.now();
+    });
+}
+
+/**
+ * Replaces a session's loadout, e.g. after a card was switched to a different outfit.
+ * Results for outfits no longer in the loadout are dropped.
+ * @param sessionId The session to update.
+ * @param items The new loadout.
+ */
+export async function saveSessionItems(sessionId: string, items: GenerationItem[]): Promise<void> {
+    await updateSession(sessionId, session => {
+        const characters = new Set(items.map(item => item.character));
+        const isInLoadout = ([character]: [string, unknown]) => characters.has(character);
+        session.items = items;
+        session.results = Object.fromEntries(Object.entries(session.results).filter(isInLoadout));
+        if (session.variants) {
+            session.variants = Object.fromEntries(Object.entries(session.variants).filter(isInLoadout));
+        }
+        session.updatedAt = Date.now();
+    });
+}
+
+/**
+ * Lists every stored session, newest first.
+ * @returns A promise that resolves to the stored sessions.
+ */
+export async function listSessions(): Promise<HistorySession[]> {
+    const sessions = await withStore<HistorySession[]>('readonly', store => store.index('createdAt').getAll());
+    return sessions.reverse();
+}
+
+/**
+ * Fetches a single session.
+ * @param sessionId The session's ID.
+ * @returns The session, or undefined if it doesn't exist.
+ */
+export async function getSession(sessionId: string): Promise<HistorySession | undefined> {
+    return withStore<HistorySession | undefined>('readonly', store => store.get(sessionId));
+}
+
+/**
+ * Deletes sessions from history.
+ * @param sessionIds The IDs of the sessions to delete.
+ */
+export async function deleteSessions(sessionIds: string[]): Promise<void> {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+        const store = transaction.objectStore(SESSIONS_STORE);
+        sessionIds.forEach(id => store.delete(id));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('History transaction was aborted.'));
+    });
+}
+
+/** Deletes every session in history. */
+export async function clearHistory(): Promise<void> {
+    await withStore('readwrite', store => store.clear());
+}
+
+/**
+ * Reports how much of the browser's storage quota this origin is using.
+ * @returns The usage and quota in bytes, or null if the browser can't tell.
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || quota === undefined) return null;
+    return { usedBytes: usage, quotaBytes: quota };
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getApiKey } from './apiKeyStore';
+import { createGeminiProvider } from './geminiProvider';
+import { createProxyProvider } from './proxyProvider';
+import { createStubProvider, isStubFailureMode, STUB_FAILURE_MODES } from './stubProvider';
+
+/** A base64-encoded image ready to be sent to a model. */
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+/**
+ * The raw outcome of a single image-generation call. Models may answer with text
+ * instead of an image (e.g. when a prompt is blocked), so either field can be set.
+ */
+export interface ImageResult {
+    imageDataUrl?: string;
+    text?: string;
+}
+
+/**
+ * A backend capable of the two model calls the lobby needs. Implementations make a
+ * single attempt per call and throw errors carrying a `status` code on failure;
+ * retries and prompt fallbacks are handled by the caller in `geminiService.ts`.
+ * An aborted `signal` rejects the call with an `AbortError`.
+ */
+export interface ImageProvider {
+    readonly name: ImageProviderName;
+    /** The model that generates images, so results from different models are never mixed up. */
+    readonly imageModel: string;
+    /** The model that answers questions about photos. */
+    readonly textModel: string;
+    /**
+     * Edits the source images according to the prompt (used by `generateCharacterImage` with one
+     * photo and `generateSquadImage` with one per squad member). The prompt refers to them in order.
+     */
+    generateImage(images: InlineImage[], prompt: string, signal?: AbortSignal): Promise<ImageResult>;
+    /** Answers a text question about the source image (used by `detectGender`). */
+    generateText(image: InlineImage, prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+export type ImageProviderName = 'gemini' | 'proxy' | 'stub';
+
+/** Thrown when the browser needs to call Gemini directly but the user hasn't set an API key. */
+export class MissingApiKeyError extends Error {
+    constructor() {
+        super("No Gemini API key is set. Open Settings and paste your key to start generating.");
+        this.name = 'MissingApiKeyError';
+    }
+}
+
+let activeProvider: ImageProvider | null = null;
+// The user key the active provider was created with, so a changed key rebuilds it.
+let activeApiKey: string | null = null;
+// Set with `setImageProvider`; takes priority over config and survives key changes.
+let overrideProvider: ImageProvider | null = null;
+
+function getConfiguredProviderName(): string {
+    return (process.env.IMAGE_PROVIDER || 'proxy').toLowerCase();
+}
+
+/**
+ * Reports whether the configured provider calls Gemini from the browser with the key saved in Settings.
+ * The proxy and stub never use a saved key, so keys stay off the client in those deployments.
+ * @returns True if `IMAGE_PROVIDER` is 'gemini'.
+ */
+export function usesBrowserApiKey(): boolean {
+    return getConfiguredProviderName() === 'gemini';
+}
+
+/**
+ * Creates the provider selected by the `IMAGE_PROVIDER` setting ('proxy' by default).
+ * 'gemini' calls Gemini directly from the browser with the key saved in Settings and requires one.
+ * The proxy talks to the API server at `API_BASE_URL`; the stub's simulated failures are chosen
+ * with `STUB_FAILURE_MODE`.
+ */
+function createConfiguredProvider(apiKey: string | null): ImageProvider {
+    const providerName = getConfiguredProviderName();
+
+    if (providerName === 'gemini') {
+        if (!apiKey) {
+            throw new MissingApiKeyError();
+        }
+        return createGeminiProvider({ apiKey });
+    }
+
+    if (providerName === 'stub') {
+        const failureMode = (process.env.STUB_FAILURE_MODE || 'none').toLowerCase();
+        if (!isStubFailureMode(failureMode)) {
+            throw new Error(`Unknown STUB_FAILURE_MODE "${failureMode}". Expected one of ${STUB_FAILURE_MODES.map(mode => `'${mode}'`).join(', ')}.`);
+        }
+        console.info(`Using the offline stub image provider (failure mode: ${failureMode}).`);
+        return createStubProvider({ failureMode });
+    }
+
+    if (providerName !== 'proxy') {
+        throw new Error(`Unknown IMAGE_PROVIDER "${providerName}". Expected 'proxy', 'gemini' or 'stub'.`);
+    }
+
+    return createProxyProvider({ baseUrl: process.env.API_BASE_URL });
+}
+
+/**
+ * Reports whether generation is blocked until the user saves an API key.
+ * @returns True if the configured provider needs a key and none is stored.
+ */
+export function isApiKeyRequired(): boolean {
+    return usesBrowserApiKey() && !getApiKey();
+}
+
+/**
+ * Returns the active image provider: the one set with `setImageProvider` if any, otherwise one
+ * created lazily from config. With `IMAGE_PROVIDER=gemini`, it is recreated whenever the saved key changes.
+ * @returns The shared ImageProvider instance.
+ */
+export function getImageProvider(): ImageProvider {
+    if (overrideProvider) {
+        return overrideProvider;
+    }
+    const apiKey = usesBrowserApiKey() ? getApiKey() : null;
+    if (!activeProvider || apiKey !== activeApiKey) {
+        activeProvider = createConfiguredProvider(apiKey);
+        activeApiKey = apiKey;
+    }
+    return activeProvider;
+}
+
+/**
+ * Replaces the active image provider, e.g. to inject a stub with a specific failure mode.
+ * The override stays in place when the saved API key changes.
+ * @param provider The provider to use for subsequent calls, or null to fall back to config.
+ */
+export function setImageProvider(provider: ImageProvider | null): void {
+    overrideProvider = provider;
+}
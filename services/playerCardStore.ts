@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PLAYER_CARD_FRAMES, RANK_TIERS } from '../lib/playerCard';
+import type { PlayerCardFrame, PlayerStats, RankTier } from '../lib/playerCard';
+
+const STORAGE_KEY = 'pubg-lobby:player-card';
+
+const FRAMES = Object.keys(PLAYER_CARD_FRAMES) as PlayerCardFrame[];
+const RANKS = Object.keys(RANK_TIERS) as RankTier[];
+
+/** What the user fills in once and sees on every card they download. */
+export interface PlayerCardSettings {
+    frame: PlayerCardFrame;
+    playerName: string;
+    rank: RankTier | null;
+    stats: PlayerStats;
+}
+
+export const DEFAULT_PLAYER_CARD_SETTINGS: PlayerCardSettings = {
+    frame: 'classic',
+    playerName: '',
+    rank: null,
+    stats: {},
+};
+
+const readStat = (value: unknown): number | undefined => (
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined
+);
+
+/**
+ * Reads the user's saved player card.
+ * @returns The saved settings, with defaults for anything missing or unreadable.
+ */
+export function getPlayerCardSettings(): PlayerCardSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        return {
+            frame: FRAMES.includes(stored.frame) ? stored.frame : DEFAULT_PLAYER_CARD_SETTINGS.frame,
+            playerName: typeof stored.playerName === 'string' ? stored.playerName : DEFAULT_PLAYER_CARD_SETTINGS.playerName,
+            rank: RANKS.includes(stored.rank) ? stored.rank : DEFAULT_PLAYER_CARD_SETTINGS.rank,
+            stats: {
+                kd: readStat(stored.stats?.kd),
+                wins: readStat(stored.stats?.wins),
+                damage: readStat(stored.stats?.damage),
+            },
+        };
+    } catch {
+        return { ...DEFAULT_PLAYER_CARD_SETTINGS };
+    }
+}
+
+/**
+ * Saves the user's player card for the next session.
+ * @param settings The settings to save.
+ */
+export function savePlayerCardSettings(settings: PlayerCardSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        // Settings are a convenience; the current session keeps working without them.
+        console.error("Failed to save player card settings:", error);
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DEFAULT_IMAGE_MODEL, DEFAULT_TEXT_MODEL } from './geminiProvider';
+import type { ImageProvider, InlineImage, ImageResult } from './imageProvider';
+import { parseRetryAfterHeader } from './retryAfter';
+
+export interface ProxyProviderOptions {
+    /** Origin of the API server; empty for same-origin requests (e.g. through the Vite dev proxy). */
+    baseUrl?: string;
+}
+
+/** An error response from the API server, carrying the upstream HTTP status. */
+class ProxyApiError extends Error {
+    status: number;
+    /** From the `Retry-After` header on 429 responses. */
+    retryAfterSeconds?: number;
+
+    constructor(status: number, message: string, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'ProxyApiError';
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/**
+ * Posts a JSON payload to the API server and returns its parsed JSON response.
+ * @param url The endpoint URL.
+ * @param body The request payload.
+ * @param signal Cancels the request.
+ * @returns The parsed response body.
+ */
+async function postJson<T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        const message = payload?.error?.message || response.statusText || 'Request failed';
+        const retryAfter = parseRetryAfterHeader(response.headers.get('Retry-After'));
+        throw new ProxyApiError(response.status, message, retryAfter !== null && retryAfter > 0 ? retryAfter : undefined);
+    }
+
+    return response.json() as Promise<T>;
+}
+
+/**
+ * Creates an ImageProvider that forwards calls to the PUBG Lobby API server
+ * (`server/index.ts`), which holds the Gemini API key.
+ * @param options The server location.
+ * @returns An ImageProvider that never sees the API key.
+ */
+export function createProxyProvider(options: ProxyProviderOptions = {}): ImageProvider {
+    const baseUrl = (options.baseUrl ?? '').replace(/\/$/, '');
+
+    return {
+        name: 'proxy',
+        // The API server always uses the default models
+        imageModel: DEFAULT_IMAGE_MODEL,
+        textModel: DEFAULT_TEXT_MODEL,
+
+        async generateImage(images: InlineImage[], prompt: string, signal?: AbortSignal): Promise<ImageResult> {
+            return postJson<ImageResult>(`${baseUrl}/api/generate`, { images, prompt }, signal);
+        },
+
+        async generateText(image: InlineImage, prompt: string, signal?: AbortSignal): Promise<string> {
+            const { text } = await postJson<{ text: string }>(`${baseUrl}/api/analyze`, { image, prompt }, signal);
+            return text;
+        },
+    };
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getRetryAfterSeconds, parseRetryAfterHeader } from './retryAfter';
+
+describe('getRetryAfterSeconds', () => {
+    it.each<[string, unknown, number | null]>([
+        ['the proxy\'s Retry-After', { status: 429, retryAfterSeconds: 7 }, 7],
+        ['a RetryInfo detail', { error: { code: 429, details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '31s' }] } }, 31],
+        ['a RetryInfo embedded in the message', new Error('{"error":{"details":[{"retryDelay":"4.5s"}]}}'), 4.5],
+        ['"retry in" text', new Error('Quota exceeded. Please retry in 12s.'), 12],
+        ['an error without a delay', new Error('Resource has been exhausted'), null],
+        ['a non-error', null, null],
+    ])('reads %s', (_, error, expected) => {
+        expect(getRetryAfterSeconds(error)).toBe(expected);
+    });
+});
+
+describe('parseRetryAfterHeader', () => {
+    const now = Date.parse('2026-10-21T07:28:00Z');
+
+    it.each<[string | null, number | null]>([
+        ['120', 120],
+        [' 1.5 ', 1.5],
+        ['Wed, 21 Oct 2026 07:28:30 GMT', 30],
+        // A date already past means retry now
+        ['Wed, 21 Oct 2026 07:27:00 GMT', 0],
+        ['-5', null],
+        ['soon', null],
+        ['', null],
+        [null, null],
+    ])('parses %j', (header, expected) => {
+        expect(parseRetryAfterHeader(header, now)).toBe(expected);
+    });
+});
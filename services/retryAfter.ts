@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isRecord, readApiError } from './apiError';
+
+const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+
+// Gemini durations look like "31s" or "1.5s"
+const parseDuration = (value: unknown): number | null => {
+    const match = typeof value === 'string' ? value.match(/^(\d+(?:\.\d+)?)s$/) : null;
+    return match ? Number(match[1]) : null;
+};
+
+/**
+ * Reads how long a rate-limited (429) response asked us to wait before retrying.
+ * Understands a `retryAfterSeconds` field (set from the `Retry-After` header by the
+ * proxy provider) and the `google.rpc.RetryInfo` detail that Gemini puts in its errors,
+ * whether structured or embedded in the SDK's error message.
+ * @param error The error thrown by a provider.
+ * @returns The delay in seconds, or null if the error doesn't say.
+ */
+export function getRetryAfterSeconds(error: unknown): number | null {
+    const { retryAfterSeconds, details, message } = readApiError(error);
+    if (retryAfterSeconds !== undefined && retryAfterSeconds >= 0) {
+        return retryAfterSeconds;
+    }
+
+    const retryInfo = details.find(detail => isRecord(detail) && detail['@type'] === RETRY_INFO_TYPE);
+    const seconds = isRecord(retryInfo) ? parseDuration(retryInfo.retryDelay) : null;
+    if (seconds !== null) return seconds;
+
+    const embedded = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)s/i);
+    return embedded ? Number(embedded[1]) : null;
+}
+
+/**
+ * Parses an HTTP `Retry-After` header, which is either a number of seconds or an HTTP date.
+ * @param value The header's value.
+ * @param now The current time in milliseconds, for dates.
+ * @returns The delay in seconds (0 for a date already past), or null if the header is missing or malformed.
+ */
+export function parseRetryAfterHeader(value: string | null, now: number = Date.now()): number | null {
+    const trimmed = value?.trim();
+    if (!trimmed) return null;
+    if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+        return Number(trimmed);
+    }
+    // HTTP dates always name the day and month, e.g. "Wed, 21 Oct 2026 07:28:00 GMT"
+    const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+    return Number.isNaN(date) ? null : Math.max(0, (date - now) / 1000);
+}
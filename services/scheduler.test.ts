@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScheduler } from './scheduler';
+import type { ScheduleOptions, Scheduler } from './scheduler';
+
+interface ControlledTask {
+    promise: Promise<string>;
+    finish: () => void;
+}
+
+// Queues a task that runs until finished by hand, recording when it starts
+const scheduleControlled = (scheduler: Scheduler, label: string, started: string[], options: ScheduleOptions = {}): ControlledTask => {
+    let finish!: () => void;
+    const promise = scheduler.schedule(() => new Promise<string>(resolve => {
+        started.push(label);
+        finish = () => resolve(label);
+    }), { label, ...options });
+    return { promise, finish: () => finish() };
+};
+
+describe('createScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('runs no more tasks at once than its concurrency', async () => {
+        const scheduler = createScheduler({ concurrency: 2, ratePerMinute: 600, burst: 10 });
+        const started: string[] = [];
+        const tasks = ['a', 'b', 'c'].map(label => scheduleControlled(scheduler, label, started));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual(['a', 'b']);
+        expect(scheduler.getSnapshot()).toMatchObject({ running: ['a', 'b'], queued: ['c'] });
+
+        tasks[0].finish();
+        await expect(tasks[0].promise).resolves.toBe('a');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    it('starts a burst at once, then waits for the token bucket to refill', async () => {
+        const scheduler = createScheduler({ concurrency: 10, ratePerMinute: 6, burst: 2 });
+        const started: string[] = [];
+        ['a', 'b', 'c'].forEach(label => scheduleControlled(scheduler, label, started));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual(['a', 'b']);
+
+        // 6 a minute is one token every 10 seconds
+        await vi.advanceTimersByTimeAsync(9_000);
+        expect(started).toEqual(['a', 'b']);
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    it('puts user tasks ahead of queued batch work, first come first served within a priority', async () => {
+        const scheduler = createScheduler({ concurrency: 1, ratePerMinute: 600, burst: 10 });
+        const started: string[] = [];
+        const tasks = new Map<string, ControlledTask>();
+        const add = (label: string, priority?: ScheduleOptions['priority']) => tasks.set(label, scheduleControlled(scheduler, label, started, { priority }));
+        add('batch 1');
+        add('batch 2');
+        add('user 1', 'user');
+        add('batch 3');
+        add('user 2', 'user');
+        expect(scheduler.getSnapshot().queued).toEqual(['user 1', 'user 2', 'batch 2', 'batch 3']);
+
+        // Finish each task as soon as it starts, so the next one in line goes
+        for (let i = 0; i < tasks.size; i++) {
+            await vi.advanceTimersByTimeAsync(0);
+            tasks.get(started[i])!.finish();
+        }
+        expect(started).toEqual(['batch 1', 'user 1', 'user 2', 'batch 2', 'batch 3']);
+    });
+
+    it('holds back every queued task while paused', async () => {
+        const scheduler = createScheduler({ concurrency: 2, ratePerMinute: 600, burst: 10 });
+        const started: string[] = [];
+        scheduler.pauseFor(5_000);
+        expect(scheduler.getSnapshot().pausedUntil).toBe(Date.now() + 5_000);
+        scheduleControlled(scheduler, 'a', started);
+        scheduleControlled(scheduler, 'b', started);
+
+        await vi.advanceTimersByTimeAsync(4_999);
+        expect(started).toEqual([]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(started).toEqual(['a', 'b']);
+        expect(scheduler.getSnapshot().pausedUntil).toBeNull();
+    });
+
+    it('keeps the longer pause when paused twice', () => {
+        const scheduler = createScheduler();
+        scheduler.pauseFor(5_000);
+        scheduler.pauseFor(1_000);
+        expect(scheduler.getSnapshot().pausedUntil).toBe(Date.now() + 5_000);
+    });
+
+    it('drops a queued task when its signal aborts', async () => {
+        const scheduler = createScheduler({ concurrency: 1, ratePerMinute: 600, burst: 10 });
+        const started: string[] = [];
+        const running = scheduleControlled(scheduler, 'a', started);
+        const controller = new AbortController();
+        const queued = scheduleControlled(scheduler, 'b', started, { signal: controller.signal });
+
+        controller.abort();
+        await expect(queued.promise).rejects.toMatchObject({ name: 'AbortError' });
+        expect(scheduler.getSnapshot().queued).toEqual([]);
+
+        running.finish();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual(['a']);
+    });
+
+    it('frees the slot of a task that throws synchronously', async () => {
+        const scheduler = createScheduler({ concurrency: 1, ratePerMinute: 600, burst: 10 });
+        const failing = scheduler.schedule(() => {
+            throw new Error('boom');
+        });
+        const next = scheduler.schedule(async () => 'next');
+        await expect(failing).rejects.toThrow('boom');
+        await expect(next).resolves.toBe('next');
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createAbortError } from '../lib/abort';
+
+/** 'user' tasks (e.g. regenerating a card) jump ahead of queued 'batch' work. */
+export type TaskPriority = 'user' | 'batch';
+
+export interface SchedulerOptions {
+    /** How many calls may be in flight at once. */
+    concurrency?: number;
+    /** Sustained call rate allowed by the token bucket. */
+    ratePerMinute?: number;
+    /** How many calls may start back to back before the rate limit applies. */
+    burst?: number;
+}
+
+export interface ScheduleOptions {
+    priority?: TaskPriority;
+    /** Identifies the task in queue snapshots, e.g. the outfit a card is for. */
+    label?: string;
+    /** Removes the task from the queue, or is passed on to it once running. */
+    signal?: AbortSignal;
+}
+
+export interface SchedulerSnapshot {
+    /** Labels of the running tasks. */
+    running: string[];
+    /** Labels of the waiting tasks, in the order they will start. */
+    queued: string[];
+    /** When a rate-limit cooldown ends (epoch ms), or null if calls may start now. */
+    pausedUntil: number | null;
+}
+
+export interface Scheduler {
+    /**
+     * Queues a task and resolves with its result once it has run.
+     * Rejects with an AbortError if the signal aborts while the task is still queued.
+     */
+    schedule<T>(task: () => Promise<T>, options?: ScheduleOptions): Promise<T>;
+    /** Holds back every queued task for a while, e.g. after a 429 with `Retry-After`. */
+    pauseFor(ms: number): void;
+    getSnapshot(): SchedulerSnapshot;
+    /** Calls the listener whenever the queue changes; returns an unsubscribe function. */
+    subscribe(listener: (snapshot: SchedulerSnapshot) => void): () => void;
+}
+
+interface QueuedTask {
+    run: () => void;
+    priority: TaskPriority;
+    label: string;
+    onAbort?: () => void;
+}
+
+/**
+ * Creates a scheduler that runs tasks with limited concurrency and a token-bucket
+ * rate limit, highest priority first and in arrival order within a priority.
+ * @param options Concurrency and rate limits.
+ * @returns A scheduler to route every model call through.
+ */
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+    const concurrency = Math.max(1, options.concurrency ?? 2);
+    const ratePerMinute = Math.max(1, options.ratePerMinute ?? 10);
+    const burst = Math.max(1, options.burst ?? concurrency);
+    const refillPerMs = ratePerMinute / 60_000;
+
+    const queue: QueuedTask[] = [];
+    const running = new Set<QueuedTask>();
+    const listeners = new Set<(snapshot: SchedulerSnapshot) => void>();
+    let tokens = burst;
+    let lastRefill = Date.now();
+    let pausedUntil = 0;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const getSnapshot = (): SchedulerSnapshot => ({
+        running: Array.from(running, task => task.label),
+        queued: queue.map(task => task.label),
+        pausedUntil: pausedUntil > Date.now() ? pausedUntil : null,
+    });
+
+    const notify = () => {
+        const snapshot = getSnapshot();
+        listeners.forEach(listener => listener(snapshot));
+    };
+
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(burst, tokens + (now - lastRefill) * refillPerMs);
+        lastRefill = now;
+    };
+
+    const scheduleWake = (ms: number) => {
+        if (wakeTimer) clearTimeout(wakeTimer);
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, Math.ceil(ms)));
+    };
+
+    const pump = () => {
+        refill();
+        let changed = false;
+
+        while (queue.length > 0 && running.size < concurrency) {
+            const now = Date.now();
+            if (pausedUntil > now) {
+                scheduleWake(pausedUntil - now);
+                break;
+            }
+            if (tokens < 1) {
+                scheduleWake((1 - tokens) / refillPerMs);
+                break;
+            }
+
+            const task = queue.shift()!;
+            tokens -= 1;
+            changed = true;
+            running.add(task);
+            task.run();
+        }
+
+        if (changed) notify();
+    };
+
+    const insert = (task: QueuedTask) => {
+        // User tasks go ahead of every batch task; otherwise first come, first served
+        const index = queue.findIndex(queued => task.priority === 'user' && queued.priority === 'batch');
+        if (index === -1) {
+            queue.push(task);
+        } else {
+            queue.splice(index, 0, task);
+        }
+    };
+
+    return {
+        schedule<T>(task: () => Promise<T>, scheduleOptions: ScheduleOptions = {}): Promise<T> {
+            const { priority = 'batch', label = '', signal } = scheduleOptions;
+            if (signal?.aborted) {
+                return Promise.reject(createAbortError());
+            }
+
+            return new Promise<T>((resolve, reject) => {
+                const queued: QueuedTask = {
+                    priority,
+                    label,
+                    run: () => {
+                        if (queued.onAbort) signal?.removeEventListener('abort', queued.onAbort);
+                        // Started from a promise, so a task that throws synchronously still settles and frees its slot
+                        Promise.resolve().then(task).then(resolve, reject).finally(() => {
+                            running.delete(queued);
+                            notify();
+                            pump();
+                        });
+                    },
+                };
+
+                queued.onAbort = () => {
+                    const index = queue.indexOf(queued);
+                    if (index !== -1) {
+                        queue.splice(index, 1);
+                        reject(createAbortError());
+                        notify();
+                    }
+                };
+                signal?.addEventListener('abort', queued.onAbort, { once: true });
+
+                insert(queued);
+                notify();
+                pump();
+            });
+        },
+
+        pauseFor(ms: number) {
+            pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+            notify();
+            pump();
+        },
+
+        getSnapshot,
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
+
+let sharedScheduler: Scheduler | null = null;
+
+/**
+ * Returns the scheduler shared by every model call in the app. Limits come from
+ * the `GENERATION_CONCURRENCY` and `GENERATION_RATE_PER_MINUTE` settings.
+ */
+export function getScheduler(): Scheduler {
+    if (!sharedScheduler) {
+        sharedScheduler = createScheduler({
+            concurrency: Number(process.env.GENERATION_CONCURRENCY) || undefined,
+            ratePerMinute: Number(process.env.GENERATION_RATE_PER_MINUTE) || undefined,
+        });
+    }
+    return sharedScheduler;
+}
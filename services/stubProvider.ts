@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { delay } from '../lib/abort';
+import type { ImageProvider, InlineImage, ImageResult } from './imageProvider';
+
+/**
+ * Failure behaviours the stub can simulate:
+ * - 'none': every call succeeds.
+ * - 'flaky': each prompt fails with a 503, then a 500, before succeeding.
+ * - 'unavailable': every call fails with a 503.
+ * - 'safety-block': roughly half of all prompts are refused with a safety message.
+ * - 'text-only': the model always replies with text instead of an image.
+ * - 'rate-limited': each prompt is first rejected with a 429 asking for a 5 second wait.
+ */
+export type StubFailureMode = 'none' | 'flaky' | 'unavailable' | 'safety-block' | 'text-only' | 'rate-limited';
+
+export const STUB_FAILURE_MODES: readonly StubFailureMode[] = ['none', 'flaky', 'unavailable', 'safety-block', 'text-only', 'rate-limited'];
+
+/**
+ * Checks that a configured failure mode is one the stub knows.
+ * @param value The configured mode, e.g. from `STUB_FAILURE_MODE`.
+ * @returns True if the stub can simulate it.
+ */
+export function isStubFailureMode(value: string): value is StubFailureMode {
+    return (STUB_FAILURE_MODES as readonly string[]).includes(value);
+}
+
+export interface StubProviderOptions {
+    failureMode?: StubFailureMode;
+    /** Simulated network latency per call, in milliseconds. */
+    latencyMs?: number;
+}
+
+/** Mirrors the shape of the SDK's ApiError so the retry logic treats both alike. */
+class SimulatedApiError extends Error {
+    status: number;
+    retryAfterSeconds?: number;
+
+    constructor(status: number, message: string, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'SimulatedApiError';
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+// FNV-1a hash, used to derive deterministic output from the inputs
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Stub provider failed to load the source image.'));
+        img.src = src;
+    });
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * Procedurally draws a placeholder "render": the source photos side by side in a frame on
+ * a gradient whose colours are derived from the prompt, with the prompt text printed underneath.
+ */
+async function drawStubImage(images: InlineImage[], prompt: string): Promise<string> {
+    const width = 768;
+    const height = 1024;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    const hash = hashString(prompt);
+    const hueA = hash % 360;
+    const hueB = (hueA + 40 + ((hash >>> 9) % 120)) % 360;
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hueA}, 55%, 35%)`);
+    gradient.addColorStop(1, `hsl(${hueB}, 60%, 12%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const sources = await Promise.all(images.map(image => loadImage(`data:${image.mimeType};base64,${image.data}`)));
+    const frame = { x: 84, y: 84, width: 600, height: 600 };
+    const sliceWidth = frame.width / sources.length;
+
+    ctx.save();
+    sources.forEach((source, index) => {
+        const slice = { x: frame.x + index * sliceWidth, y: frame.y, width: sliceWidth, height: frame.height };
+        const scale = Math.max(slice.width / source.naturalWidth, slice.height / source.naturalHeight);
+        const drawWidth = source.naturalWidth * scale;
+        const drawHeight = source.naturalHeight * scale;
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(slice.x, slice.y, slice.width, slice.height);
+        ctx.clip();
+        ctx.drawImage(source, slice.x + (slice.width - drawWidth) / 2, slice.y + (slice.height - drawHeight) / 2, drawWidth, drawHeight);
+        ctx.restore();
+    });
+    ctx.fillStyle = `hsla(${hueA}, 70%, 40%, 0.25)`;
+    ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+    ctx.restore();
+
+    ctx.strokeStyle = '#F59E0B';
+    ctx.lineWidth = 6;
+    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+
+    ctx.fillStyle = '#F59E0B';
+    ctx.font = `56px 'Teko', sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText('OFFLINE STUB RENDER', frame.x, frame.y + frame.height + 24);
+
+    ctx.fillStyle = '#E5E5E5';
+    ctx.font = `22px 'Roboto', sans-serif`;
+    const lines = wrapText(ctx, prompt.replace(/\*\*/g, ''), frame.width).slice(0, 9);
+    lines.forEach((line, i) => ctx.fillText(line, frame.x, frame.y + frame.height + 96 + i * 28));
+
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Creates a deterministic, offline ImageProvider for development and demos.
+ * The same inputs always produce the same image, and failures can be simulated
+ * to exercise the retry and fallback paths without a Gemini API key.
+ * @param options The failure mode and simulated latency.
+ * @returns An ImageProvider that never touches the network.
+ */
+export function createStubProvider(options: StubProviderOptions = {}): ImageProvider {
+    const failureMode = options.failureMode ?? 'none';
+    const latencyMs = options.latencyMs ?? 800;
+    const attemptsByPrompt = new Map<string, number>();
+
+    return {
+        name: 'stub',
+        imageModel: 'stub',
+        textModel: 'stub',
+
+        async generateImage(images: InlineImage[], prompt: string, signal?: AbortSignal): Promise<ImageResult> {
+            await delay(latencyMs, signal);
+
+            const attempt = (attemptsByPrompt.get(prompt) ?? 0) + 1;
+            attemptsByPrompt.set(prompt, attempt);
+
+            switch (failureMode) {
+                case 'unavailable':
+                    throw new SimulatedApiError(503, 'The model is overloaded. Please try again later. (simulated)');
+                case 'flaky':
+                    if (attempt === 1) throw new SimulatedApiError(503, 'The model is overloaded. Please try again later. (simulated)');
+                    if (attempt === 2) throw new SimulatedApiError(500, 'An internal error has occurred. (simulated)');
+                    break;
+                case 'safety-block':
+                    if (hashString(prompt) % 2 === 0) {
+                        return { text: "I'm unable to edit this image because the request may violate safety policies. (simulated)" };
+                    }
+                    break;
+                case 'text-only':
+                    return { text: 'Here is a description of the requested scene instead of an image. (simulated)' };
+                case 'rate-limited':
+                    if (attempt === 1) throw new SimulatedApiError(429, 'Resource has been exhausted. Please retry in 5s. (simulated)', 5);
+                    break;
+            }
+
+            return { imageDataUrl: await drawStubImage(images, prompt) };
+        },
+
+        async generateText(image: InlineImage, prompt: string, signal?: AbortSignal): Promise<string> {
+            await delay(latencyMs / 2, signal);
+            if (failureMode === 'unavailable') {
+                throw new SimulatedApiError(503, 'The model is overloaded. Please try again later. (simulated)');
+            }
+            const answers = ['Male', 'Female', 'Unknown'];
+            return answers[hashString(image.data + prompt) % answers.length];
+        },
+    };
+}
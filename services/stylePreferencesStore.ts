@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { OutfitStylePreference, StylePreferences, SubjectDescription } from '../types';
+
+const STORAGE_KEY = 'pubg-lobby:style-preferences';
+
+const OUTFIT_STYLES: OutfitStylePreference[] = ['masculine', 'feminine', 'neutral', 'mixed'];
+const DESCRIPTIONS: SubjectDescription[] = ['male', 'female', 'person'];
+
+export interface StyleSettings extends StylePreferences {
+    /** Ask the text model for a suggested style when a photo is uploaded. Off unless the user opts in. */
+    suggestFromPhoto: boolean;
+}
+
+export const DEFAULT_STYLE_SETTINGS: StyleSettings = {
+    outfitStyle: 'mixed',
+    description: 'person',
+    suggestFromPhoto: false,
+};
+
+/**
+ * Reads the user's saved style settings.
+ * @returns The saved settings, with defaults for anything missing or unreadable.
+ */
+export function getStyleSettings(): StyleSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        return {
+            outfitStyle: OUTFIT_STYLES.includes(stored.outfitStyle) ? stored.outfitStyle : DEFAULT_STYLE_SETTINGS.outfitStyle,
+            description: DESCRIPTIONS.includes(stored.description) ? stored.description : DEFAULT_STYLE_SETTINGS.description,
+            suggestFromPhoto: typeof stored.suggestFromPhoto === 'boolean' ? stored.suggestFromPhoto : DEFAULT_STYLE_SETTINGS.suggestFromPhoto,
+        };
+    } catch {
+        return { ...DEFAULT_STYLE_SETTINGS };
+    }
+}
+
+/**
+ * Saves the user's style settings for the next session.
+ * @param settings The settings to save.
+ */
+export function saveStyleSettings(settings: StyleSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        // Settings are a convenience; the current session keeps working without them.
+        console.error("Failed to save style settings:", error);
+    }
+}
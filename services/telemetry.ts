@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProviderName } from './imageProvider';
+import type { PromptTier } from '../types';
+
+/** 'image' for card generation, 'text' for photo analysis. */
+export type CallKind = 'image' | 'text';
+
+/**
+ * How a call ended: answered by the model, answered from the generation cache, refused by the
+ * model's safety filters, cancelled, or failed with any other error.
+ */
+export type CallOutcome = 'success' | 'cached' | 'blocked' | 'aborted' | 'failed';
+
+/** One model call, including its retries, as recorded in the telemetry log. */
+export interface CallEvent {
+    id: string;
+    /** The lobby session the call was made for, if any. */
+    sessionId?: string;
+    kind: CallKind;
+    provider: ImageProviderName;
+    model: string;
+    /** Identifies the call, e.g. the outfit a card is for. */
+    label?: string;
+    promptTier?: PromptTier;
+    promptVersion?: number;
+    /** True for every prompt tier after the first in the fallback chain. */
+    isFallback: boolean;
+    /** Attempts that reached the provider, including retries; 0 for cache hits. */
+    attempts: number;
+    startedAt: number;
+    /** Time spent queued before the first attempt. */
+    waitMs: number;
+    /** Time from the call being made to its outcome, including queueing and retries. */
+    latencyMs: number;
+    /** How many photos were sent with each attempt. */
+    imageCount: number;
+    /** The photos and prompt sent with each attempt. */
+    bytesIn: number;
+    /** The image or text that came back. */
+    bytesOut: number;
+    outcome: CallOutcome;
+    /** The error's class, e.g. `RateLimitedError`, for blocked and failed calls. */
+    errorClass?: string;
+    errorMessage?: string;
+    /** What the call is likely to have cost, in US dollars. */
+    estimatedCostUsd: number;
+}
+
+/** What's known about a call when it is made. */
+export type CallDetails = Pick<CallEvent, 'sessionId' | 'kind' | 'provider' | 'model' | 'label' | 'promptTier' | 'promptVersion' | 'isFallback' | 'imageCount' | 'bytesIn'>;
+
+export interface TelemetryTotals {
+    calls: number;
+    attempts: number;
+    cacheHits: number;
+    /** Blocked and failed calls. */
+    failures: number;
+    bytesIn: number;
+    bytesOut: number;
+    /** Mean latency of the calls that reached the model. */
+    averageLatencyMs: number;
+    estimatedCostUsd: number;
+}
+
+/** Tracks a call that is in progress. */
+export interface CallRecorder {
+    /** Counts an attempt as it starts, including retries. */
+    countAttempt(): void;
+    /**
+     * Records how the call ended and adds it to the log.
+     * @param outcome How the call ended.
+     * @param result The bytes that came back, and the error for unsuccessful calls.
+     * @returns The recorded event.
+     */
+    finish(outcome: CallOutcome, result?: { bytesOut?: number; error?: unknown }): CallEvent;
+}
+
+export interface TelemetryLog {
+    /** Starts timing a call; nothing is logged until it finishes. */
+    startCall(details: CallDetails): CallRecorder;
+    /** The recorded calls, oldest first. */
+    getEvents(): CallEvent[];
+    clear(): void;
+    /** Calls the listener whenever a call is recorded or the log is cleared; returns an unsubscribe function. */
+    subscribe(listener: (events: CallEvent[]) => void): () => void;
+}
+
+interface ModelPrice {
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    /** Tokens billed for each generated image, for image models. */
+    tokensPerOutputImage?: number;
+}
+
+// Published list prices per model, in US dollars. Models that aren't listed (e.g. the stub) cost nothing.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash-image-preview': { inputPerMillionTokens: 0.30, outputPerMillionTokens: 30, tokensPerOutputImage: 1290 },
+    'gemini-2.5-flash': { inputPerMillionTokens: 0.30, outputPerMillionTokens: 2.50 },
+};
+
+// Rough token counts, since the providers don't report usage: about 4 bytes of text per token,
+// and a photo bills about as much as a generated image does. Prompts are small next to the photos.
+const BYTES_PER_TEXT_TOKEN = 4;
+const TOKENS_PER_INPUT_IMAGE = 1290;
+// Keeps a long session from growing the log without bound
+const MAX_EVENTS = 1000;
+
+/**
+ * Estimates what a call cost. Only calls the model answered are billed, including refusals that came
+ * back as text; cache hits, cancelled calls and failed attempts are free.
+ * @param event The call, without its estimate.
+ * @returns The estimated cost in US dollars.
+ */
+export function estimateCallCost(event: Omit<CallEvent, 'id' | 'estimatedCostUsd'>): number {
+    const price = MODEL_PRICES[event.model];
+    const wasAnswered = event.outcome === 'success' || (event.outcome === 'blocked' && event.bytesOut > 0);
+    if (!price || !wasAnswered) return 0;
+    const inputTokens = event.imageCount * TOKENS_PER_INPUT_IMAGE;
+    const outputTokens = event.kind === 'image' && event.outcome === 'success' && price.tokensPerOutputImage
+        ? price.tokensPerOutputImage
+        : event.bytesOut / BYTES_PER_TEXT_TOKEN;
+    return (inputTokens * price.inputPerMillionTokens + outputTokens * price.outputPerMillionTokens) / 1_000_000;
+}
+
+/**
+ * Adds up a set of calls, e.g. one session's.
+ * @param events The calls to add up.
+ * @returns Their totals.
+ */
+export function summarizeEvents(events: CallEvent[]): TelemetryTotals {
+    const modelCalls = events.filter(event => event.attempts > 0);
+    return {
+        calls: events.length,
+        attempts: events.reduce((total, event) => total + event.attempts, 0),
+        cacheHits: events.filter(event => event.outcome === 'cached').length,
+        failures: events.filter(event => event.outcome === 'blocked' || event.outcome === 'failed').length,
+        bytesIn: events.reduce((total, event) => total + event.bytesIn, 0),
+        bytesOut: events.reduce((total, event) => total + event.bytesOut, 0),
+        averageLatencyMs: modelCalls.length > 0
+            ? modelCalls.reduce((total, event) => total + event.latencyMs, 0) / modelCalls.length
+            : 0,
+        estimatedCostUsd: events.reduce((total, event) => total + event.estimatedCostUsd, 0),
+    };
+}
+
+/**
+ * Serializes the log for attaching to a bug report.
+ * @param events The calls to export.
+ * @returns Pretty-printed JSON with the calls and their totals.
+ */
+export function exportTelemetryJson(events: CallEvent[]): string {
+    return JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        userAgent: navigator.userAgent,
+        totals: summarizeEvents(events),
+        events,
+    }, null, 2);
+}
+
+/**
+ * Creates an empty telemetry log.
+ * @returns The log.
+ */
+export function createTelemetryLog(): TelemetryLog {
+    let events: CallEvent[] = [];
+    const listeners = new Set<(events: CallEvent[]) => void>();
+
+    const notify = () => listeners.forEach(listener => listener(events));
+
+    return {
+        startCall(details) {
+            const startedAt = Date.now();
+            let attempts = 0;
+            let firstAttemptAt: number | null = null;
+
+            return {
+                countAttempt() {
+                    attempts++;
+                    firstAttemptAt ??= Date.now();
+                },
+
+                finish(outcome, result = {}) {
+                    const finishedAt = Date.now();
+                    const { error } = result;
+                    const event: Omit<CallEvent, 'id' | 'estimatedCostUsd'> = {
+                        ...details,
+                        attempts,
+                        startedAt,
+                        waitMs: (firstAttemptAt ?? finishedAt) - startedAt,
+                        latencyMs: finishedAt - startedAt,
+                        bytesOut: result.bytesOut ?? 0,
+                        outcome,
+                        errorClass: error instanceof Error ? error.name : undefined,
+                        errorMessage: error instanceof Error ? error.message : error !== undefined ? String(error) : undefined,
+                    };
+                    const recorded: CallEvent = { ...event, id: crypto.randomUUID(), estimatedCostUsd: estimateCallCost(event) };
+                    events = [...events, recorded].slice(-MAX_EVENTS);
+                    notify();
+                    return recorded;
+                },
+            };
+        },
+
+        getEvents: () => events,
+
+        clear() {
+            events = [];
+            notify();
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
+
+let sharedTelemetryLog: TelemetryLog | null = null;
+
+/**
+ * Returns the log every model call in the app is recorded in.
+ * @returns The shared log.
+ */
+export function getTelemetryLog(): TelemetryLog {
+    if (!sharedTelemetryLog) {
+        sharedTelemetryLog = createTelemetryLog();
+    }
+    return sharedTelemetryLog;
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ImageStatus = 'pending' | 'done' | 'error';
+
+/**
+ * What a failed card offers: try the same thing again, swap the outfit, wait out a limit,
+ * or fix the API key, which no retry can get past.
+ */
+export type ErrorAction = 'retry' | 'change-outfit' | 'wait' | 'open-settings';
+
+/** The prompt templates, from most to least detailed. */
+export type PromptTier = 'full-scene' | 'simplified-scene' | 'outfit-only';
+
+/** One finished render of a card. */
+export interface CardVariant {
+    id: string;
+    /** An object URL from the image store, which holds the image as a Blob. */
+    url: string;
+    /** Which prompt template produced the image. */
+    promptTier?: PromptTier;
+    createdAt: number;
+}
+
+export interface GeneratedImage {
+    status: ImageStatus;
+    /** Every finished render for the card, oldest first. Re-rolls add to this instead of replacing it. */
+    variants?: CardVariant[];
+    /** The variant the album, downloads and shares use. New variants are kept until another one is picked. */
+    keptVariantId?: string;
+    /** A user-facing explanation of why generation failed. */
+    error?: string;
+    errorAction?: ErrorAction;
+    /** For 'wait' errors, how long until a retry is worth it. */
+    retryAfterSeconds?: number;
+}
+
+export interface GenerationItem {
+    /** The outfit. Also identifies the card, so it's unique within a loadout. */
+    character: string;
+    map: string;
+    scenario: string;
+    /** A display title the user typed, e.g. a gamer tag. Shown instead of the outfit, which becomes the subtitle. */
+    title?: string;
+    /**
+     * The squad members in the card, by ID: one for a member's solo card, all of them for the squad shot.
+     * Unset for solo lobbies, whose cards all use the single uploaded photo.
+     */
+    memberIds?: string[];
+}
+
+/**
+ * 'solo' makes a loadout of cards from one photo; 'squad' combines two to four players;
+ * 'roster' makes a separate loadout for every photo in a batch, e.g. a whole clan.
+ */
+export type LobbyMode = 'solo' | 'squad' | 'roster';
+
+/** One player in a squad lobby. Their outfit lives on their solo card's GenerationItem. */
+export interface SquadMember {
+    id: string;
+    /** The preprocessed photo, as a data URL. */
+    photo: string;
+}
+
+/** 'shared' gives every roster member the same loadout; 'random' rolls a new one per member. */
+export type RosterLoadoutMode = 'shared' | 'random';
+
+/** One person in a roster batch. */
+export interface RosterMember {
+    id: string;
+    /** What to call them in the export. May be blank, in which case the photo's filename is used. */
+    name: string;
+    /** The name of the uploaded file, without its extension. */
+    fileName: string;
+    /** The preprocessed photo, as a data URL. */
+    photo: string;
+    /** Their cards, assigned when the batch starts. */
+    items: GenerationItem[];
+}
+
+export type Gender = 'Male' | 'Female' | 'Unknown';
+
+/** Which outfits are offered: one style's outfits plus the neutral ones, only neutral ones, or everything. */
+export type OutfitStylePreference = 'masculine' | 'feminine' | 'neutral' | 'mixed';
+
+/** How the person is described in the prompt. */
+export type SubjectDescription = 'male' | 'female' | 'person';
+
+export interface StylePreferences {
+    outfitStyle: OutfitStylePreference;
+    description: SubjectDescription;
+}
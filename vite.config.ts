@@ -5,8 +5,20 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only non-secret settings belong here; the Gemini API key stays on the API server.
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.STUB_FAILURE_MODE': JSON.stringify(env.STUB_FAILURE_MODE),
+        'process.env.UPLOAD_MAX_DIMENSION': JSON.stringify(env.UPLOAD_MAX_DIMENSION),
+        'process.env.GENERATION_CONCURRENCY': JSON.stringify(env.GENERATION_CONCURRENCY),
+        'process.env.GENERATION_RATE_PER_MINUTE': JSON.stringify(env.GENERATION_RATE_PER_MINUTE),
+        'process.env.PROMPT_FALLBACK_CHAIN': JSON.stringify(env.PROMPT_FALLBACK_CHAIN),
+        'process.env.GENERATION_CACHE_MAX_MB': JSON.stringify(env.GENERATION_CACHE_MAX_MB)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {